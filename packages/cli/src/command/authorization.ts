@@ -16,11 +16,10 @@
  */
 
 import {Command} from 'commander';
-import Table from 'easy-table';
 import {DateTime} from 'luxon';
 
 import {display} from '../io.js';
-import {contextualAction, newCommand} from './common.js';
+import {contextualAction, newCommand, recordFormatOption} from './common.js';
 
 export function authorizationCommand(): Command {
   return newCommand()
@@ -35,32 +34,22 @@ function listCommand(): Command {
   return newCommand()
     .command('list')
     .description('list authorizations')
+    .addOption(recordFormatOption())
     .action(
       contextualAction(async function () {
         const {client, spinner} = this;
         spinner.start('Fetching authorizations...');
         const infos = await client.listAuthorizations();
-        const table = new Table();
-        for (const info of infos) {
-          table.cell('name', info.name);
-          table.cell('created', DateTime.fromISO(info.createdAt).toRelative());
-          table.cell(
-            'last_used',
-            info.lastUsedAt
-              ? DateTime.fromISO(info.lastUsedAt).toRelative()
-              : ''
-          );
-          table.cell(
-            'expiration',
-            DateTime.fromISO(info.expiresAt).toRelative()
-          );
-          table.cell('token_suffix', info.tokenSuffix);
-          table.newRow();
-        }
         spinner.succeed(`Fetched ${infos.length} authorizations(s).\n`);
-        if (infos.length) {
-          display('' + table);
-        }
+        this.displayRecords(infos, (info) => ({
+          name: info.name,
+          created: DateTime.fromISO(info.createdAt).toRelative(),
+          last_used: info.lastUsedAt
+            ? DateTime.fromISO(info.lastUsedAt).toRelative()
+            : '',
+          expiration: DateTime.fromISO(info.expiresAt).toRelative(),
+          token_suffix: info.tokenSuffix,
+        }));
       })
     );
 }
@@ -19,7 +19,7 @@ import {errorFactories, errorMessage} from '@opvious/stl-errors';
 import {WithActiveSpanParams} from '@opvious/stl-telemetry';
 import {LocalPath} from '@opvious/stl-utils/files';
 import {spawn, SpawnOptions} from 'child_process';
-import {Command, CommanderError} from 'commander';
+import {Command, CommanderError, Option} from 'commander';
 import events from 'events';
 import {OpviousClient} from 'opvious';
 import ora, {Ora} from 'ora';
@@ -27,6 +27,7 @@ import {AsyncOrSync} from 'ts-essentials';
 
 import {COMMAND_NAME, telemetry} from '../common.js';
 import {Config, loadConfig} from '../config.js';
+import {display, formatRecords, RecordCells, RecordFormat} from '../io.js';
 
 const [errors, codes] = errorFactories({
   definitions: {
@@ -59,11 +60,27 @@ export function newCommand(): Command {
   });
 }
 
+/**
+ * Returns the output format option of commands which list records. Actions
+ * should display records via their context's `displayRecords` method.
+ *
+ * The option is added to each listing command rather than to the root command
+ * since other commands already have their own `--format` option (for example
+ * `problem format`), which a root option would shadow: commander also parses
+ * root options after the subcommand's name.
+ */
+export function recordFormatOption(): Option {
+  return new Option('-f, --format <format>', 'output format')
+    .choices(Object.values(RecordFormat))
+    .default(RecordFormat.TABLE);
+}
+
 export function contextualAction(
   fn: (this: ActionContext, ...args: any[]) => AsyncOrSync<void>
 ): (...args: any[]) => Promise<void> {
   return async (...args): Promise<void> => {
-    let cmd = args[args.length - 1]; // Command is always last.
+    const leaf = args[args.length - 1]; // Command is always last.
+    let cmd = leaf;
     while (cmd.parent) {
       cmd = cmd.parent;
     }
@@ -94,7 +111,18 @@ export function contextualAction(
         throw errors.setupFailed(cause);
       }
 
-      const ctx: ActionContext = {spinner, config: cfg, client: cfg.client};
+      const ctx: ActionContext = {
+        spinner,
+        config: cfg,
+        client: cfg.client,
+        displayRecords: (records, cells, dopts) => {
+          const format = leaf.opts().format ?? RecordFormat.TABLE;
+          const str = formatRecords(format, records, cells, dopts);
+          if (str != null) {
+            display(str);
+          }
+        },
+      };
       try {
         await fn.call(ctx, ...args);
       } catch (cause) {
@@ -109,6 +137,16 @@ export interface ActionContext {
   readonly spinner: Ora;
   readonly config: Config;
   readonly client: OpviousClient;
+
+  /**
+   * Displays records in the format selected via the command's
+   * `recordFormatOption`, defaulting to a table. See `formatRecords`.
+   */
+  displayRecords<R extends object>(
+    records: ReadonlyArray<R>,
+    cells: (rec: R) => RecordCells,
+    opts?: {readonly transposed?: boolean}
+  ): void;
 }
 
 export async function runShell(
@@ -22,14 +22,15 @@ import {watch} from 'chokidar';
 import {Command} from 'commander';
 import debounce from 'debounce';
 import Table from 'easy-table';
-import {readFile} from 'fs/promises';
+import {readFile, writeFile} from 'fs/promises';
 import {DateTime} from 'luxon';
+import {generateFormulationModule} from 'opvious';
 import * as api from 'opvious/api';
 import path from 'path';
 import url from 'url';
 
 import {display} from '../io.js';
-import {contextualAction, newCommand} from './common.js';
+import {contextualAction, newCommand, recordFormatOption} from './common.js';
 
 export function formulationCommand(): Command {
   return newCommand()
@@ -40,6 +41,7 @@ export function formulationCommand(): Command {
     .addCommand(listFormulationsCommand())
     .addCommand(listFormulationTagsCommand())
     .addCommand(fetchOutlineCommand())
+    .addCommand(codegenCommand())
     .addCommand(deleteFormulationCommand());
 }
 
@@ -128,51 +130,70 @@ function fetchOutlineCommand(): Command {
     );
 }
 
+function codegenCommand(): Command {
+  return newCommand()
+    .command('codegen <name>')
+    .description(
+      'generate a TypeScript module with typed inputs and outputs for a ' +
+        'formulation'
+    )
+    .option('-t, --tag <name>', 'specification tag')
+    .option('-o, --output <path>', 'output path, defaults to stdout')
+    .option(
+      '--api-module <name>',
+      'module from which API types are imported',
+      'opvious/api'
+    )
+    .action(
+      contextualAction(async function (name, opts) {
+        const {client, spinner} = this;
+        spinner.start('Fetching outline...');
+        const form = await client.fetchFormulationOutline(name, opts.tag);
+        const {revno, outline} = form.tag.specification;
+        const src = generateFormulationModule({
+          formulationName: form.name,
+          tagName: form.tag.name,
+          outline,
+          apiModule: opts.apiModule,
+        });
+        if (opts.output) {
+          await writeFile(opts.output, src);
+          spinner.succeed(`Generated module. [revno=${revno}]`);
+        } else {
+          spinner.succeed(`Generated module. [revno=${revno}]\n`);
+          display(src);
+        }
+      })
+    );
+}
+
 function listFormulationsCommand(): Command {
   return newCommand()
     .command('list')
     .description('list formulations')
     .option('-d, --display-name <like>', 'display name filter')
     .option('-l, --limit <limit>', 'maximum number of results', '' + PAGE_LIMIT)
+    .addOption(recordFormatOption())
     .action(
       contextualAction(async function (opts) {
         const {client, spinner} = this;
         spinner.start('Fetching formulations...');
-        const table = new Table();
-        const limit = +opts.limit;
-        let count = 0;
-        let cursor: string | undefined;
-        do {
-          const paginated = await client.paginateFormulations({
-            first: Math.min(PAGE_LIMIT, limit - count),
-            after: cursor,
-            filter: {
-              displayNameLike: opts.displayName,
-            },
-          });
-          for (const node of paginated.nodes) {
-            table.cell('name', node.displayName);
-            table.cell(
-              'created',
-              DateTime.fromISO(node.createdAt).toRelative()
-            );
-            table.cell(
-              'updated',
-              DateTime.fromISO(node.lastSpecifiedAt).toRelative()
-            );
-            table.cell('specifications', node.specifications.totalCount);
-            table.newRow();
-          }
-          const {hasNextPage, endCursor} = paginated.info;
-          cursor = hasNextPage ? endCursor : undefined;
-          count += paginated.nodes.length;
-          spinner.text =
-            `Fetched ${count} of ${paginated.totalCount} ` + 'formulations...';
-        } while (cursor && count < limit);
-        spinner.succeed(`Fetched ${count} formulation(s).\n`);
-        if (count) {
-          display('' + table);
+        const formulations = [];
+        const nodes = client.iterateFormulations(
+          {displayNameLike: opts.displayName},
+          {limit: +opts.limit, pageSize: PAGE_LIMIT}
+        );
+        for await (const node of nodes) {
+          formulations.push(node);
+          spinner.text = `Fetched ${formulations.length} formulations...`;
         }
+        spinner.succeed(`Fetched ${formulations.length} formulation(s).\n`);
+        this.displayRecords(formulations, (node) => ({
+          name: node.displayName,
+          created: DateTime.fromISO(node.createdAt).toRelative(),
+          updated: DateTime.fromISO(node.lastSpecifiedAt).toRelative(),
+          specifications: node.specifications.totalCount,
+        }));
       })
     );
 }
@@ -182,43 +203,27 @@ function listFormulationTagsCommand(): Command {
     .command('list-tags <name>')
     .description('list formulation tags')
     .option('-l, --limit <limit>', 'maximum number of results', '' + PAGE_LIMIT)
+    .addOption(recordFormatOption())
     .action(
       contextualAction(async function (name, opts) {
         const {client, spinner} = this;
         spinner.start('Fetching formulation tags...');
-        const table = new Table();
-        const limit = +opts.limit;
-        let count = 0;
-        let cursor: string | undefined;
-        do {
-          const paginated = await client.paginateFormulationTags({
-            formulationName: name,
-            first: Math.min(PAGE_LIMIT, limit - count),
-            after: cursor,
-          });
-          for (const node of paginated.nodes) {
-            table.cell('name', node.name);
-            table.cell(
-              'created',
-              DateTime.fromISO(node.createdAt).toRelative()
-            );
-            table.cell(
-              'updated',
-              DateTime.fromISO(node.lastUpdatedAt).toRelative()
-            );
-            table.cell('revno', node.specification.revno);
-            table.newRow();
-          }
-          const {hasNextPage, endCursor} = paginated.info;
-          cursor = hasNextPage ? endCursor : undefined;
-          count += paginated.nodes.length;
-          spinner.text =
-            `Fetched ${count} of ${paginated.totalCount} ` + 'formulations...';
-        } while (cursor && count < limit);
-        spinner.succeed(`Fetched ${count} tag(s).\n`);
-        if (count) {
-          display('' + table);
+        const tags = [];
+        const nodes = client.iterateFormulationTags(name, {
+          limit: +opts.limit,
+          pageSize: PAGE_LIMIT,
+        });
+        for await (const node of nodes) {
+          tags.push(node);
+          spinner.text = `Fetched ${tags.length} tags...`;
         }
+        spinner.succeed(`Fetched ${tags.length} tag(s).\n`);
+        this.displayRecords(tags, (node) => ({
+          name: node.name,
+          created: DateTime.fromISO(node.createdAt).toRelative(),
+          updated: DateTime.fromISO(node.lastUpdatedAt).toRelative(),
+          revno: node.specification.revno,
+        }));
       })
     );
 }
@@ -18,7 +18,6 @@
 import {assert, check} from '@opvious/stl-errors';
 import {resolvable} from '@opvious/stl-utils/functions';
 import {Command, Option} from 'commander';
-import Table from 'easy-table';
 import Fifo from 'fast-fifo';
 import fs from 'fs';
 import {DateTime} from 'luxon';
@@ -28,7 +27,7 @@ import {COMMAND_NAME, logPath, packageInfo} from '../common.js';
 import {display} from '../io.js';
 import {apiCommand} from './api.js';
 import {authorizationCommand} from './authorization.js';
-import {contextualAction, newCommand} from './common.js';
+import {contextualAction, newCommand, recordFormatOption} from './common.js';
 import {formulationCommand} from './formulation.js';
 import {notebookCommand} from './notebook.js';
 import {problemCommand} from './problem.js';
@@ -57,6 +56,7 @@ function showCredentialsCommand(): Command {
     .command('me')
     .description('display active account information')
     .option('-t, --token', 'show API token instead')
+    .addOption(recordFormatOption())
     .action(
       contextualAction(async function (opts) {
         const {client, spinner, config} = this;
@@ -70,15 +70,14 @@ function showCredentialsCommand(): Command {
         spinner.start('Fetching credentials...');
         const member = await client.fetchMember();
         spinner.succeed('Fetched credentials.\n');
-        const table = new Table();
-        table.cell('email', member.email);
-        table.cell(
-          'registered',
-          DateTime.fromISO(member.registeredAt).toRelative()
+        this.displayRecords(
+          [member],
+          (mbr) => ({
+            email: mbr.email,
+            registered: DateTime.fromISO(mbr.registeredAt).toRelative(),
+          }),
+          {transposed: true}
         );
-        // table.cell('credit_balance', member.creditBalance);
-        table.newRow();
-        display(table.printTransposed());
       })
     );
 }
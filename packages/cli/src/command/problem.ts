@@ -16,28 +16,49 @@
  */
 
 import * as api from '@opvious/api';
-import {waitForEvent} from '@opvious/stl-utils/events';
+import {errors} from '@opvious/stl-errors';
 import {ifPresent} from '@opvious/stl-utils/functions';
-import {Command} from 'commander';
+import {Command, Option} from 'commander';
 import Table from 'easy-table';
 import {createWriteStream} from 'fs';
-import {writeFile} from 'fs/promises';
+import {readFile, writeFile} from 'fs/promises';
 import {DateTime} from 'luxon';
-import {loadProblem} from 'opvious';
+import {
+  diffProblems,
+  isEmptyDiff,
+  linearModelResult,
+  loadProblem,
+  modelFormats,
+  parseLinearModel,
+  parseSolutionValues,
+  ProblemDiff,
+  ProgressRecorder,
+  runSweep,
+  Scenario,
+  ScenarioResult,
+  summaryWarnings,
+  validateProblem,
+} from 'opvious';
 import {pipeline as streamPipeline} from 'stream/promises';
 import YAML from 'yaml';
 
 import {humanizeMillis} from '../common.js';
-import {display} from '../io.js';
-import {contextualAction, newCommand} from './common.js';
-import {queueCommand} from './queue.js';
+import {SolveDashboard} from '../dashboard.js';
+import {csvCell, display} from '../io.js';
+import {contextualAction, newCommand, recordFormatOption} from './common.js';
+import {queueCommand, watchQueuedSolve} from './queue.js';
 
 export function problemCommand(): Command {
   return newCommand()
     .command('problem')
     .description('problem solving commands')
     .addCommand(solveCommand())
+    .addCommand(checkCommand())
+    .addCommand(inspectCommand())
+    .addCommand(diffCommand())
+    .addCommand(sweepCommand())
     .addCommand(formatCommand())
+    .addCommand(evaluateCommand())
     .addCommand(attemptsCommand())
     .addCommand(queueCommand());
 }
@@ -46,39 +67,115 @@ function solveCommand(): Command {
   return newCommand()
     .command('solve')
     .description('solve an optimization problem')
-    .argument('<path>', 'path to problem data')
+    .argument('<path>', 'path or URL to problem data (- for stdin)')
     .option('-j, --json-path <path>', 'JSONPath to nested problem data')
     .option(
       '-o, --output <path>',
       'output path, not applicable for queued solves (default: stdout)'
     )
     .option('-q, --queue', 'queue the solve')
+    .option(
+      '-w, --watch',
+      'display a live dashboard of the solve\'s progress, which can be ' +
+        'cancelled by pressing c. queued solves are watched until completion'
+    )
+    .option(
+      '--progress-log <path>',
+      'path where solver progress is written, as CSV if it has a .csv ' +
+        'extension and JSON otherwise. queued solves are tracked until ' +
+        'completion'
+    )
     .action(
       contextualAction(async function (lp, opts) {
         const {client, spinner} = this;
         spinner.start('Parsing problem...');
 
-        const prob = await loadProblem(lp, {jsonPath: opts.jsonPath});
+        const prob = await loadProblem(lp, {jsonPath: opts.jsonPath, client});
         spinner.succeed(
           `Parsed problem. [parameters=${prob.inputs.parameters.length}]`
         );
 
         if (opts.queue) {
+          const recorder = opts.progressLog
+            ? new ProgressRecorder()
+            : undefined;
           spinner.start('Queuing solve...');
+          const queuedAt = Date.now();
           const {uuid} = await client.queueSolve({problem: prob});
           spinner.succeed(`Queued solve. [uuid=${uuid}]`);
+          if (opts.watch || recorder) {
+            let status: string | undefined;
+            if (opts.watch) {
+              status = await watchQueuedSolve(
+                client,
+                uuid,
+                recorder ? {recorder, startedAt: queuedAt} : undefined
+              );
+            } else if (recorder) {
+              spinner.start('Tracking solve...');
+              const tracker = client.trackSolve(uuid);
+              recorder.trackQueued(tracker, queuedAt);
+              status = await new Promise<string>((ok, fail) => {
+                tracker
+                  .on('error', fail)
+                  .on('failure', () => void ok('FAILED'))
+                  .on('outcome', (outcome) => void ok(outcome.status));
+              });
+            }
+            if (status) {
+              spinner.succeed(`Tracked solve. [status=${status}]`);
+            } else {
+              spinner.info('Stopped watching solve.');
+            }
+            if (recorder) {
+              await writeProgressLog(opts.progressLog, recorder);
+              spinner.succeed(
+                `Wrote progress log. [${progressDetails(recorder)}]`
+              );
+            }
+          }
           return;
         }
 
-        spinner.start('Solving...');
-        const tracker = client.runSolve({problem: prob}).on('solving', (p) => {
-          if (p.kind === 'activity') {
-            spinner.text =
-              `Solving... [gap=${formatGap(p.relativeGap)}, ` +
-              `cuts=${p.cutCount}, iterations=${p.lpIterationCount}]`;
+        const ac = new AbortController();
+        const dashboard = opts.watch
+          ? new SolveDashboard({
+              title: 'Inline solve',
+              onCancel: () => void ac.abort(),
+            }).start()
+          : undefined;
+        if (!dashboard) {
+          spinner.start('Solving...');
+        }
+        const recorder = opts.progressLog
+          ? new ProgressRecorder({startedAt: Date.now()})
+          : undefined;
+        let solved;
+        try {
+          solved = await client.solve(prob, {
+            signal: ac.signal,
+            onProgress: (p) => {
+              recorder?.recordProgress(p);
+              if (dashboard) {
+                dashboard.recordProgress(p);
+              } else if (p.kind === 'activity') {
+                spinner.text =
+                  `Solving... [gap=${formatGap(p.relativeGap)}, ` +
+                  `cuts=${p.cutCount}, iterations=${p.lpIterationCount}]`;
+              }
+            },
+          });
+          dashboard?.setStatus(solved.outcome.status, solved.outcome);
+        } catch (err) {
+          if (!ac.signal.aborted) {
+            throw err;
           }
-        });
-        const [outcome, outputs] = await waitForEvent(tracker, 'solved');
+          spinner.warn('Cancelled solve.');
+          return;
+        } finally {
+          dashboard?.close();
+        }
+        const {outcome, outputs} = solved;
         const details = [`status=${outcome.status}`];
         ifPresent(
           outcome.objectiveValue,
@@ -89,6 +186,10 @@ function solveCommand(): Command {
           (g) => void details.push(`gap=${formatGap(g)}`)
         );
         spinner.succeed(`Completed solve. [${details.join(', ')}]`);
+        if (recorder) {
+          await writeProgressLog(opts.progressLog, recorder);
+          spinner.succeed(`Wrote progress log. [${progressDetails(recorder)}]`);
+        }
         const data = YAML.stringify(outputs);
         if (opts.output) {
           await writeFile(opts.output, data, 'utf8');
@@ -99,6 +200,24 @@ function solveCommand(): Command {
     );
 }
 
+async function writeProgressLog(
+  fp: string,
+  recorder: ProgressRecorder
+): Promise<void> {
+  const data = fp.endsWith('.csv') ? recorder.toCsv() : recorder.toJson();
+  await writeFile(fp, data, 'utf8');
+}
+
+function progressDetails(recorder: ProgressRecorder): string {
+  const summary = recorder.summary();
+  const details = [`samples=${summary.sampleCount}`];
+  ifPresent(
+    summary.timeToFirstFeasibleMillis,
+    (t) => void details.push(`first_feasible=${humanizeMillis(t)}`)
+  );
+  return details.join(', ');
+}
+
 function formatGap(gap: api.Schema<'ExtendedFloat'> | undefined): string {
   switch (gap) {
     case undefined:
@@ -114,15 +233,411 @@ function formatGap(gap: api.Schema<'ExtendedFloat'> | undefined): string {
   }
 }
 
+function checkCommand(): Command {
+  return newCommand()
+    .command('check')
+    .description(
+      'validate a problem\'s inputs against its formulation, without solving it'
+    )
+    .argument('<path>', 'path or URL to problem data (- for stdin)')
+    .option('-j, --json-path <path>', 'JSONPath to nested problem data')
+    .action(
+      contextualAction(async function (lp, opts) {
+        const {client, spinner} = this;
+        spinner.start('Parsing problem...');
+        const prob = await loadProblem(lp, {jsonPath: opts.jsonPath, client});
+        spinner.succeed('Parsed problem.').start('Fetching outline...');
+        const outline = await client.fetchProblemOutline(prob.formulation);
+        spinner.succeed('Fetched outline.');
+        const issues = validateProblem(prob, outline);
+        if (!issues.length) {
+          spinner.succeed(
+            `Problem is valid. [parameters=${prob.inputs.parameters.length}]`
+          );
+          return;
+        }
+        spinner.warn(`Problem is invalid. [issues=${issues.length}]\n`);
+        const table = new Table();
+        for (const issue of issues) {
+          table.cell('path', issue.path);
+          table.cell('message', issue.message);
+          table.newRow();
+        }
+        display('' + table);
+        process.exitCode = 2;
+      })
+    );
+}
+
+function inspectCommand(): Command {
+  return newCommand()
+    .command('inspect')
+    .description(
+      'show a problem\'s instance counts and input statistics, without ' +
+        'solving it'
+    )
+    .argument('<path>', 'path or URL to problem data (- for stdin)')
+    .option('-j, --json-path <path>', 'JSONPath to nested problem data')
+    .option(
+      '-m, --max-instances <count>',
+      'warn about variables and constraints with more columns or rows',
+      '1000000'
+    )
+    .action(
+      contextualAction(async function (lp, opts) {
+        const {client, spinner} = this;
+        spinner.start('Parsing problem...');
+        const prob = await loadProblem(lp, {jsonPath: opts.jsonPath, client});
+        spinner.succeed('Parsed problem.').start('Reifying problem...');
+        const summary = await client.inspectProblem(prob);
+        spinner.succeed(
+          `Reified problem. [columns=${summary.columnCount}, ` +
+            `rows=${summary.rowCount}, ` +
+            `nonzeros=${summary.weightProfile.count}]\n`
+        );
+
+        const sections: string[] = [];
+        const section = (title: string, table: Table): void => {
+          sections.push(`${title}\n\n${table}`);
+        };
+        const dimensions = new Table();
+        for (const dim of summary.dimensions) {
+          dimensions.cell('label', dim.label);
+          dimensions.cell('items', dim.itemCount);
+          dimensions.newRow();
+        }
+        section('Dimensions', dimensions);
+        const parameters = new Table();
+        for (const param of summary.parameters) {
+          const {count, min, max} = param.entryProfile;
+          parameters.cell('label', param.label);
+          parameters.cell('entries', count);
+          parameters.cell('min', min ?? '');
+          parameters.cell('max', max ?? '');
+          parameters.newRow();
+        }
+        section('Parameters', parameters);
+        const variables = new Table();
+        for (const vr of summary.variables) {
+          variables.cell('label', vr.label);
+          variables.cell('columns', vr.columnCount);
+          variables.newRow();
+        }
+        section('Variables', variables);
+        const constraints = new Table();
+        for (const cs of summary.constraints) {
+          constraints.cell('label', cs.label);
+          constraints.cell('rows', cs.rowCount);
+          constraints.cell('nonzeros', cs.weightProfile.count);
+          constraints.newRow();
+        }
+        section('Constraints', constraints);
+        display(sections.join('\n'));
+
+        const warnings = summaryWarnings(summary, {
+          maxInstances: +opts.maxInstances,
+        });
+        if (warnings.length) {
+          const table = new Table();
+          for (const warning of warnings) {
+            table.cell('path', warning.path);
+            table.cell('message', warning.message);
+            table.newRow();
+          }
+          spinner.warn(`Problem has warnings. [count=${warnings.length}]\n`);
+          display('' + table);
+        }
+      })
+    );
+}
+
+enum DiffFormat {
+  JSON = 'json',
+  TABLE = 'table',
+  UNIFIED = 'unified',
+}
+
+function diffCommand(): Command {
+  return newCommand()
+    .command('diff')
+    .description('show differences between two problems')
+    .argument('<before>', 'path or URL to the original problem data')
+    .argument('<after>', 'path or URL to the updated problem data')
+    .option('-j, --json-path <path>', 'JSONPath to nested problem data')
+    .option(
+      '-f, --format <format>',
+      `output format (supported values: ${Object.values(DiffFormat).join(', ')})`,
+      DiffFormat.TABLE
+    )
+    .action(
+      contextualAction(async function (lp1, lp2, opts) {
+        const {client, spinner} = this;
+        const format = diffFormatter(opts.format, lp1, lp2);
+        spinner.start('Parsing problems...');
+        const [prob1, prob2] = await Promise.all(
+          [lp1, lp2].map((lp) =>
+            loadProblem(lp, {jsonPath: opts.jsonPath, client})
+          )
+        );
+        const diff = diffProblems(prob1!, prob2!);
+        if (isEmptyDiff(diff)) {
+          spinner.succeed('Problems are identical.');
+          return;
+        }
+        spinner.succeed(
+          `Problems differ. [dimensions=${diff.dimensions.length}, ` +
+            `parameters=${diff.parameters.length}, ` +
+            `options=${diff.options.length}]\n`
+        );
+        display(format(diff));
+      })
+    );
+}
+
+function diffFormatter(
+  fmt: string,
+  lp1: string,
+  lp2: string
+): (diff: ProblemDiff) => string {
+  switch (fmt) {
+    case DiffFormat.JSON:
+      return (diff) => JSON.stringify(diff, null, 2);
+    case DiffFormat.TABLE:
+      return (diff) => {
+        const table = new Table();
+        for (const row of diffRows(diff)) {
+          table.cell('kind', row.kind);
+          table.cell('label', row.label);
+          table.cell('key', row.key ?? '');
+          table.cell('before', row.before ?? '');
+          table.cell('after', row.after ?? '');
+          table.newRow();
+        }
+        return '' + table;
+      };
+    case DiffFormat.UNIFIED:
+      return (diff) => {
+        const lines = [`--- ${lp1}`, `+++ ${lp2}`];
+        let header: string | undefined;
+        for (const row of diffRows(diff)) {
+          const rowHeader = `@@ ${row.kind} ${row.label} @@`;
+          if (rowHeader !== header) {
+            lines.push(rowHeader);
+            header = rowHeader;
+          }
+          const prefix = row.key == null ? '' : row.key + ' ';
+          if (row.before != null) {
+            lines.push(`-${prefix}${row.before}`);
+          }
+          if (row.after != null) {
+            lines.push(`+${prefix}${row.after}`);
+          }
+        }
+        return lines.join('\n');
+      };
+    default:
+      throw errors.invalid({message: `Invalid format: ${fmt}`});
+  }
+}
+
+interface DiffRow {
+  readonly kind: string;
+  readonly label: string;
+  readonly key?: string;
+  readonly before?: string;
+  readonly after?: string;
+}
+
+function diffRows(diff: ProblemDiff): ReadonlyArray<DiffRow> {
+  const rows: DiffRow[] = [];
+  const str = (val: unknown): string | undefined =>
+    val === undefined ? undefined : JSON.stringify(val);
+  if (diff.formulation) {
+    const {before, after} = diff.formulation;
+    rows.push({
+      kind: 'formulation',
+      label: '',
+      before: str(before),
+      after: str(after),
+    });
+  }
+  for (const dim of diff.dimensions) {
+    for (const item of dim.removed) {
+      rows.push({kind: 'dimension', label: dim.label, before: str(item)});
+    }
+    for (const item of dim.added) {
+      rows.push({kind: 'dimension', label: dim.label, after: str(item)});
+    }
+  }
+  for (const param of diff.parameters) {
+    if (param.defaultValue) {
+      const {before, after} = param.defaultValue;
+      rows.push({
+        kind: 'parameter',
+        label: param.label,
+        key: 'default',
+        before: str(before),
+        after: str(after),
+      });
+    }
+    for (const change of param.changes) {
+      rows.push({
+        kind: 'parameter',
+        label: param.label,
+        key: str(change.key),
+        before: str(change.before),
+        after: str(change.after),
+      });
+    }
+  }
+  for (const opt of diff.options) {
+    rows.push({
+      kind: 'option',
+      label: opt.path,
+      before: str(opt.before),
+      after: str(opt.after),
+    });
+  }
+  if (diff.transformations) {
+    const {before, after} = diff.transformations;
+    rows.push({
+      kind: 'transformations',
+      label: '',
+      before: str(before),
+      after: str(after),
+    });
+  }
+  return rows;
+}
+
+enum SweepFormat {
+  CSV = 'csv',
+  JSON = 'json',
+}
+
+function sweepCommand(): Command {
+  return newCommand()
+    .command('sweep')
+    .description(
+      'solve a problem under multiple scenarios and compare their outcomes'
+    )
+    .argument('<path>', 'path or URL to base problem data')
+    .argument(
+      '<scenarios>',
+      'path to a YAML file with a list of `scenarios` and optional ' +
+        '`variables` labels to report'
+    )
+    .option('-j, --json-path <path>', 'JSONPath to nested problem data')
+    .option(
+      '-f, --format <format>',
+      `output format (supported values: ${Object.values(SweepFormat).join(', ')})`,
+      SweepFormat.CSV
+    )
+    .option('-o, --output <path>', 'output path (default: stdout)')
+    .option('-q, --queue', 'queue solves and run them concurrently')
+    .action(
+      contextualAction(async function (lp, sp, opts) {
+        const {client, spinner} = this;
+        if (!Object.values<string>(SweepFormat).includes(opts.format)) {
+          throw errors.invalid({message: `Invalid format: ${opts.format}`});
+        }
+        spinner.start('Parsing problem and scenarios...');
+        const prob = await loadProblem(lp, {jsonPath: opts.jsonPath, client});
+        const spec: {
+          readonly scenarios?: ReadonlyArray<Scenario>;
+          readonly variables?: ReadonlyArray<string>;
+        } | null = YAML.parse(await readFile(sp, 'utf8'));
+        const scenarios = spec?.scenarios;
+        if (
+          !Array.isArray(scenarios) ||
+          (spec?.variables != null && !Array.isArray(spec.variables))
+        ) {
+          throw errors.invalid({
+            message:
+              `Invalid scenarios file ${sp}: expected a \`scenarios\` list ` +
+              'and an optional `variables` list',
+          });
+        }
+        spinner.succeed(
+          `Parsed problem and scenarios. [scenarios=${scenarios.length}]`
+        );
+
+        spinner.start('Running scenarios...');
+        let count = 0;
+        const results = await runSweep(client, prob, scenarios, {
+          queued: !!opts.queue,
+          variables: spec?.variables,
+          onResult: () => {
+            spinner.text = `Running scenarios... [${++count}/${scenarios.length}]`;
+          },
+        });
+        const failed = results.filter((r) => r.error != null).length;
+        spinner.succeed(
+          `Ran scenarios. [solved=${results.length - failed}, failed=${failed}]`
+        );
+
+        const data =
+          opts.format === SweepFormat.JSON
+            ? JSON.stringify(results, null, 2)
+            : sweepCsv(results);
+        if (opts.output) {
+          await writeFile(opts.output, data, 'utf8');
+        } else {
+          display(data);
+        }
+      })
+    );
+}
+
+/**
+ * Formats sweep results as CSV, with one row per scenario and one column per
+ * reported variable entry (for example `production[a;1]`).
+ */
+function sweepCsv(results: ReadonlyArray<ScenarioResult>): string {
+  const columns = new Map<string, number>();
+  const rows = results.map((res) => {
+    const values = new Map<number, number>();
+    for (const [label, entries] of Object.entries(res.variables)) {
+      for (const {key, value} of entries) {
+        const col = `${label}[${key.join(';')}]`;
+        let ix = columns.get(col);
+        if (ix == null) {
+          ix = columns.size;
+          columns.set(col, ix);
+        }
+        values.set(ix, value);
+      }
+    }
+    return {res, values};
+  });
+  const lines = [
+    ['scenario', 'status', 'objective', ...columns.keys()].map(csvCell),
+  ];
+  for (const {res, values} of rows) {
+    lines.push([
+      csvCell(res.name),
+      csvCell(res.status),
+      csvCell(res.objectiveValue ?? ''),
+      ...[...columns.values()].map((ix) => csvCell(values.get(ix) ?? 0)),
+    ]);
+  }
+  return lines.map((l) => l.join(',')).join('\n');
+}
+
 function formatCommand(): Command {
   return newCommand()
     .command('format')
-    .description('print a problem\'s LP representation')
+    .description('print a problem\'s instructions')
     .argument('<path>', 'path to problem data or queued solve UUID')
     .option(
       '-j, --json-path <path>',
       'JSONPath to nested problem data. only applicable with local path'
     )
+    .addOption(
+      new Option('-f, --format <format>', 'instructions format')
+        .choices(modelFormats)
+        .default('lp')
+    )
     .option('-o, --output <path>', 'output path (default: stdout)')
     .action(
       contextualAction(async function (arg, opts) {
@@ -131,9 +646,12 @@ function formatCommand(): Command {
           ? createWriteStream(opts.output)
           : process.stdout;
         spinner.start('Parsing problem...');
-        const prob = await loadProblem(arg, {jsonPath: opts.jsonPath});
+        const prob = await loadProblem(arg, {jsonPath: opts.jsonPath, client});
         spinner.succeed('Parsed problem.').start('Formatting problem...');
-        const readable = client.formatProblem({problem: prob});
+        const readable = client.formatProblem({
+          problem: prob,
+          format: opts.format,
+        });
         if (!opts.output) {
           spinner.stop().clear();
         }
@@ -145,6 +663,57 @@ function formatCommand(): Command {
     );
 }
 
+function evaluateCommand(): Command {
+  return newCommand()
+    .command('evaluate')
+    .description(
+      'map a solution computed by a local solver (for example HiGHS or CBC) ' +
+        'back to tensor results'
+    )
+    .argument('<model>', 'path to the model, as output by `problem format`')
+    .argument('<solution>', 'path to the solver\'s solution file')
+    .addOption(
+      new Option(
+        '-f, --format <format>',
+        'model format, inferred from the model\'s extension by default'
+      ).choices(modelFormats)
+    )
+    .option(
+      '-n, --naming <path>',
+      'path to a YAML or JSON file mapping model `variables` and ' +
+        '`constraints` names to tensor labels and keys'
+    )
+    .option('-l, --label <label>', 'only display results with this label')
+    .action(
+      contextualAction(async function (mp, sp, opts) {
+        const {spinner} = this;
+        const format =
+          opts.format ??
+          (mp.endsWith('.mps') ? 'mps' : mp.endsWith('.json') ? 'json' : 'lp');
+        spinner.start('Parsing model and solution...');
+        const model = parseLinearModel(await readFile(mp, 'utf8'), format);
+        const values = parseSolutionValues(await readFile(sp, 'utf8'), model);
+        const naming = opts.naming
+          ? YAML.parse(await readFile(opts.naming, 'utf8'))
+          : undefined;
+        const result = linearModelResult(model, values, {naming});
+        spinner.succeed(
+          `Parsed model and solution. [variables=${model.variables.length}, ` +
+            `values=${values.size}, objective=${result.objectiveValue}]\n`
+        );
+        const table = new Table();
+        for (const rec of result.toRecords(opts.label)) {
+          table.cell('label', rec.label);
+          table.cell('kind', rec.kind);
+          table.cell('key', rec.key.join(', '));
+          table.cell('value', rec.value);
+          table.newRow();
+        }
+        display('' + table);
+      })
+    );
+}
+
 const PAGE_LIMIT = 25;
 
 function attemptsCommand(): Command {
@@ -152,47 +721,34 @@ function attemptsCommand(): Command {
     .command('attempts')
     .description('list attempts')
     .option('-l, --limit <limit>', 'maximum number of results', '' + PAGE_LIMIT)
+    .addOption(recordFormatOption())
     .action(
       contextualAction(async function (opts) {
         const {client, spinner} = this;
         spinner.start('Fetching attempts...');
-        const table = new Table();
-        const limit = +opts.limit;
-        let count = 0;
-        let cursor: string | undefined;
-        do {
-          const paginated = await client.paginateAttempts({
-            last: Math.min(PAGE_LIMIT, limit - count),
-            before: cursor,
-          });
-          for (const attempt of [...paginated.nodes].reverse()) {
-            const startedAt = DateTime.fromISO(attempt.startedAt);
-            const endedAt = attempt.endedAt
-              ? DateTime.fromISO(attempt.endedAt)
-              : undefined;
-            table.cell('started', startedAt.toRelative());
-            table.cell(
-              'runtime',
-              endedAt ? humanizeMillis(+endedAt.diff(startedAt)) : ''
-            );
-            table.cell('operation', attempt.operation);
-            table.cell(
-              'status',
-              attempt.errorStatus ?? (endedAt ? 'OK' : '...')
-            );
-            // table.cell('credits', attempt.chargeAmount);
-            table.newRow();
-          }
-          const {hasPreviousPage, startCursor} = paginated.info;
-          cursor = hasPreviousPage ? startCursor : undefined;
-          count += paginated.nodes.length;
-          spinner.text =
-            `Fetched ${count} of ${paginated.totalCount} ` + 'attempts...';
-        } while (cursor && count < limit);
-        spinner.succeed(`Fetched ${count} attempt(s).\n`);
-        if (count) {
-          display('' + table);
+        const attempts = [];
+        const nodes = client.iterateAttempts(undefined, {
+          limit: +opts.limit,
+          pageSize: PAGE_LIMIT,
+          direction: 'backward',
+        });
+        for await (const attempt of nodes) {
+          attempts.push(attempt);
+          spinner.text = `Fetched ${attempts.length} attempts...`;
         }
+        spinner.succeed(`Fetched ${attempts.length} attempt(s).\n`);
+        this.displayRecords(attempts, (attempt) => {
+          const startedAt = DateTime.fromISO(attempt.startedAt);
+          const endedAt = attempt.endedAt
+            ? DateTime.fromISO(attempt.endedAt)
+            : undefined;
+          return {
+            started: startedAt.toRelative(),
+            runtime: endedAt ? humanizeMillis(+endedAt.diff(startedAt)) : '',
+            operation: attempt.operation,
+            status: attempt.errorStatus ?? (endedAt ? 'OK' : '...'),
+          };
+        });
       })
     );
 }
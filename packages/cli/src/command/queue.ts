@@ -20,11 +20,13 @@ import {Command} from 'commander';
 import Table from 'easy-table';
 import {writeFile} from 'fs/promises';
 import {DateTime} from 'luxon';
+import {OpviousClient, ProgressRecorder} from 'opvious';
 import YAML from 'yaml';
 
 import {humanizeMillis} from '../common.js';
+import {SolveDashboard} from '../dashboard.js';
 import {display} from '../io.js';
-import {contextualAction, newCommand} from './common.js';
+import {contextualAction, newCommand, recordFormatOption} from './common.js';
 
 export function queueCommand(): Command {
   return newCommand()
@@ -32,6 +34,7 @@ export function queueCommand(): Command {
     .description('solve queue commands')
     .addCommand(solvesCommand())
     .addCommand(cancelCommand())
+    .addCommand(watchCommand())
     .addCommand(outputsCommand())
     .addCommand(notificationsCommand());
 }
@@ -44,75 +47,50 @@ function solvesCommand(): Command {
     .description('list queued solves')
     .option('-l, --limit <limit>', 'maximum number of results', '' + PAGE_LIMIT)
     .option('-v, --verbose', 'include outcome details')
+    .addOption(recordFormatOption())
     .action(
       contextualAction(async function (opts) {
         const {client, spinner} = this;
         spinner.start('Fetching queued solves...');
-        const table = new Table();
-        const limit = +opts.limit;
-        let count = 0;
-        let cursor: string | undefined;
-        do {
-          const paginated = await client.paginateAttempts({
-            filter: {operation: 'QUEUE_SOLVE'},
-            last: Math.min(PAGE_LIMIT, limit - count),
-            before: cursor,
-          });
-          for (const attempt of [...paginated.nodes].reverse()) {
-            const {content} = attempt;
-            if (!content) {
-              continue;
-            }
-            table.cell('uuid', content.queuedSolveUuid);
-            table.cell(
-              'formulation',
-              content.queuedSolveSpecification.formulation.name
-            );
-
-            const startedAt = DateTime.fromISO(attempt.startedAt);
-            const endedAt = attempt.endedAt
-              ? DateTime.fromISO(attempt.endedAt)
-              : undefined;
-            table.cell('started', startedAt.toRelative());
-            table.cell(
-              'runtime',
-              endedAt ? humanizeMillis(+endedAt.diff(startedAt)) : ''
-            );
-
-            table.cell(
-              'status',
-              attempt?.errorStatus ??
-                content?.queuedSolveOutcome?.status ??
-                '...'
-            );
-
-            if (opts.verbose) {
-              table.cell(
-                'details',
-                ifPresent(
-                  content.queuedSolveFailure?.error,
-                  (e) => e.message
-                ) ??
-                  ifPresent(
-                    content.queuedSolveOutcome,
-                    (o) => `objective=${o.objectiveValue}`
-                  ) ??
-                  ''
-              );
-            }
-
-            table.newRow();
+        const attempts = [];
+        const nodes = client.iterateAttempts(
+          {operation: 'QUEUE_SOLVE'},
+          {limit: +opts.limit, pageSize: PAGE_LIMIT, direction: 'backward'}
+        );
+        for await (const attempt of nodes) {
+          if (attempt.content) {
+            attempts.push({...attempt, content: attempt.content});
           }
-          const {hasPreviousPage, startCursor} = paginated.info;
-          cursor = hasPreviousPage ? startCursor : undefined;
-          count += paginated.nodes.length;
-          spinner.text =
-            `Fetched ${count} of ${paginated.totalCount} ` + 'attempts...';
-        } while (cursor && count < limit);
-        spinner.succeed(`Fetched ${count} attempt(s).\n`);
-        if (count) {
-          display('' + table);
+          spinner.text = `Fetched ${attempts.length} attempts...`;
         }
+        spinner.succeed(`Fetched ${attempts.length} attempt(s).\n`);
+        this.displayRecords(attempts, (attempt) => {
+          const {content} = attempt;
+          const startedAt = DateTime.fromISO(attempt.startedAt);
+          const endedAt = attempt.endedAt
+            ? DateTime.fromISO(attempt.endedAt)
+            : undefined;
+          const cells: {[column: string]: unknown} = {
+            uuid: content.queuedSolveUuid,
+            formulation: content.queuedSolveSpecification.formulation.name,
+            started: startedAt.toRelative(),
+            runtime: endedAt ? humanizeMillis(+endedAt.diff(startedAt)) : '',
+            status:
+              attempt.errorStatus ??
+              content.queuedSolveOutcome?.status ??
+              '...',
+          };
+          if (opts.verbose) {
+            cells.details =
+              ifPresent(content.queuedSolveFailure?.error, (e) => e.message) ??
+              ifPresent(
+                content.queuedSolveOutcome,
+                (o) => `objective=${o.objectiveValue}`
+              ) ??
+              '';
+          }
+          return cells;
+        });
       })
     );
 }
@@ -131,6 +109,74 @@ function cancelCommand(): Command {
     );
 }
 
+function watchCommand(): Command {
+  return newCommand()
+    .command('watch <uuid>')
+    .description('watch a queued solve\'s progress until it completes')
+    .action(
+      contextualAction(async function (uuid) {
+        const {client, spinner} = this;
+        const status = await watchQueuedSolve(client, uuid);
+        if (status) {
+          spinner.succeed(`Tracked solve. [status=${status}]`);
+        } else {
+          spinner.info('Stopped watching solve.');
+        }
+      })
+    );
+}
+
+/**
+ * Tracks a queued solve until it completes, displaying its progress in a
+ * dashboard. Resolves to the solve's final status, or undefined if the user
+ * stopped watching before it completed. Progress is also recorded if a
+ * recorder is provided, relative to the solve's start time.
+ */
+export function watchQueuedSolve(
+  client: OpviousClient,
+  uuid: string,
+  recording?: {
+    readonly recorder: ProgressRecorder;
+    readonly startedAt: number;
+  }
+): Promise<string | undefined> {
+  const tracker = client.trackSolve(uuid);
+  recording?.recorder.trackQueued(tracker, recording.startedAt);
+  return new Promise<string | undefined>((ok, fail) => {
+    const settle = (fn: () => void): void => {
+      tracker.stop();
+      dashboard.close();
+      fn();
+    };
+    const dashboard = new SolveDashboard({
+      title: `Queued solve ${uuid}`,
+      onCancel: () => {
+        dashboard.setStatus('CANCELLING');
+        client.cancelSolve(uuid).then(
+          (cancelled) => {
+            if (cancelled) {
+              settle(() => void ok('CANCELLED'));
+            }
+          },
+          (err) => void settle(() => void fail(err))
+        );
+      },
+      onQuit: () => void settle(() => void ok(undefined)),
+    }).start();
+    tracker
+      .on('error', (err) => void settle(() => void fail(err)))
+      .on('notification', (notif) => void dashboard.recordNotification(notif))
+      .on('failure', () => {
+        dashboard.setStatus('FAILED');
+        settle(() => void ok('FAILED'));
+      })
+      .on('outcome', (outcome) => {
+        dashboard.setStatus(outcome.status, outcome);
+        settle(() => void ok(outcome.status));
+      });
+  });
+}
+
 function outputsCommand(): Command {
   return newCommand()
     .command('outputs')
@@ -168,29 +214,21 @@ function notificationsCommand(): Command {
         const {client, spinner} = this;
         spinner.start('Fetching notifications...');
         const table = new Table();
-        const limit = +opts.limit;
         let count = 0;
-        let cursor: string | undefined;
-        do {
-          const paginated = await client.paginateSolveNotifications({
-            uuid,
-            last: Math.min(PAGE_LIMIT, limit - count),
-            before: cursor,
-          });
-          for (const attempt of [...paginated.nodes].reverse()) {
-            const effectiveAt = DateTime.fromISO(attempt.effectiveAt);
-            table.cell('effective', effectiveAt.toRelative());
-            table.cell('gap', percent(attempt.relativeGap ?? Infinity));
-            table.cell('cuts', attempt.cutCount ?? '-');
-            table.cell('lp_iterations', attempt.lpIterationCount ?? '-');
-            table.newRow();
-          }
-          const {hasPreviousPage, startCursor} = paginated.info;
-          cursor = hasPreviousPage ? startCursor : undefined;
-          count += paginated.nodes.length;
-          spinner.text =
-            `Fetched ${count} of ${paginated.totalCount} ` + 'notifications...';
-        } while (cursor && count < limit);
+        const notifs = client.iterateSolveNotifications(uuid, {
+          limit: +opts.limit,
+          pageSize: PAGE_LIMIT,
+          direction: 'backward',
+        });
+        for await (const notif of notifs) {
+          const effectiveAt = DateTime.fromISO(notif.effectiveAt);
+          table.cell('effective', effectiveAt.toRelative());
+          table.cell('gap', percent(notif.relativeGap ?? Infinity));
+          table.cell('cuts', notif.cutCount ?? '-');
+          table.cell('lp_iterations', notif.lpIterationCount ?? '-');
+          table.newRow();
+          spinner.text = `Fetched ${++count} notifications...`;
+        }
         spinner.succeed(`Fetched ${count} notification(s).\n`);
         if (count) {
           display('' + table);
@@ -16,11 +16,9 @@
  */
 
 import {Command} from 'commander';
-import Table from 'easy-table';
 import {DateTime} from 'luxon';
 
-import {display} from '../io.js';
-import {contextualAction, newCommand} from './common.js';
+import {contextualAction, newCommand, recordFormatOption} from './common.js';
 
 export function usageCommand(): Command {
   return newCommand()
@@ -37,43 +35,32 @@ function listChargesCommand(): Command {
     .command('charges')
     .description('list credit charges')
     .option('-l, --limit <limit>', 'maximum number of results', '' + PAGE_LIMIT)
+    .addOption(recordFormatOption())
     .action(
       contextualAction(async function (opts) {
         const {client, spinner} = this;
         spinner.start('Fetching charges...');
-        const table = new Table();
-        const limit = +opts.limit;
-        let count = 0;
-        let cursor: string | undefined;
-        do {
-          const paginated = await client.paginateCreditCharges({
-            last: Math.min(PAGE_LIMIT, limit - count),
-            before: cursor,
-          });
-          for (const node of [...paginated.nodes].reverse()) {
-            table.cell(
-              'created',
-              DateTime.fromISO(node.createdAt).toRelative()
-            );
-            table.cell('amount', node.amount);
-            const {product} = node;
-            table.cell(
-              'product',
-              `${product.__typename} [operation=${product.attemptOperation}, ` +
-                `size=${product.problemSize}]`
-            );
-            table.newRow();
-          }
-          const {hasPreviousPage, startCursor} = paginated.info;
-          cursor = hasPreviousPage ? startCursor : undefined;
-          count += paginated.nodes.length;
-          spinner.text =
-            `Fetched ${count} of ${paginated.totalCount} ` + 'charge(s)...';
-        } while (cursor && count < limit);
-        spinner.succeed(`Fetched ${count} charge(s).\n`);
-        if (count) {
-          display('' + table);
+        const charges = [];
+        const nodes = client.iterateCreditCharges({
+          limit: +opts.limit,
+          pageSize: PAGE_LIMIT,
+          direction: 'backward',
+        });
+        for await (const node of nodes) {
+          charges.push(node);
+          spinner.text = `Fetched ${charges.length} charge(s)...`;
         }
+        spinner.succeed(`Fetched ${charges.length} charge(s).\n`);
+        this.displayRecords(charges, (node) => {
+          const {product} = node;
+          return {
+            created: DateTime.fromISO(node.createdAt).toRelative(),
+            amount: node.amount,
+            product:
+              `${product.__typename} [operation=${product.attemptOperation}, ` +
+              `size=${product.problemSize}]`,
+          };
+        });
       })
     );
 }
@@ -83,38 +70,27 @@ function listGrantsCommand(): Command {
     .command('grants')
     .description('list credit grants')
     .option('-l, --limit <limit>', 'maximum number of results', '' + PAGE_LIMIT)
+    .addOption(recordFormatOption())
     .action(
       contextualAction(async function (opts) {
         const {client, spinner} = this;
         spinner.start('Fetching grants...');
-        const table = new Table();
-        const limit = +opts.limit;
-        let count = 0;
-        let cursor: string | undefined;
-        do {
-          const paginated = await client.paginateCreditGrants({
-            last: Math.min(PAGE_LIMIT, limit - count),
-            before: cursor,
-          });
-          for (const node of [...paginated.nodes].reverse()) {
-            table.cell(
-              'created',
-              DateTime.fromISO(node.createdAt).toRelative()
-            );
-            table.cell('amount', node.amount);
-            table.cell('reason', node.reason);
-            table.newRow();
-          }
-          const {hasPreviousPage, startCursor} = paginated.info;
-          cursor = hasPreviousPage ? startCursor : undefined;
-          count += paginated.nodes.length;
-          spinner.text =
-            `Fetched ${count} of ${paginated.totalCount} ` + 'grant(s)...';
-        } while (cursor && count < limit);
-        spinner.succeed(`Fetched ${count} grant(s).\n`);
-        if (count) {
-          display('' + table);
+        const grants = [];
+        const nodes = client.iterateCreditGrants({
+          limit: +opts.limit,
+          pageSize: PAGE_LIMIT,
+          direction: 'backward',
+        });
+        for await (const node of nodes) {
+          grants.push(node);
+          spinner.text = `Fetched ${grants.length} grant(s)...`;
         }
+        spinner.succeed(`Fetched ${grants.length} grant(s).\n`);
+        this.displayRecords(grants, (node) => ({
+          created: DateTime.fromISO(node.createdAt).toRelative(),
+          amount: node.amount,
+          reason: node.reason,
+        }));
       })
     );
 }
@@ -0,0 +1,303 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as api from '@opvious/api';
+import {ProgressRecorder, ProgressSample} from 'opvious';
+
+const HISTORY_LENGTH = 8;
+const CHART_HEIGHT = 10;
+const REFRESH_MILLIS = 1_000;
+
+// Terminal control sequences.
+const ENTER_SCREEN = '\x1b[?1049h\x1b[?25l';
+const EXIT_SCREEN = '\x1b[?25h\x1b[?1049l';
+const CLEAR_SCREEN = '\x1b[H\x1b[2J';
+const CTRL_C = '\x03';
+
+export interface SolveDashboardOptions {
+  /** Displayed in the dashboard's header. */
+  readonly title: string;
+
+  /** Invoked when the user presses `c`. */
+  readonly onCancel: () => void;
+
+  /**
+   * Invoked when the user presses `q` or Ctrl-C. Defaults to cancelling the
+   * solve.
+   */
+  readonly onQuit?: () => void;
+}
+
+/**
+ * Live view of a solve's progress. When both stdin and stdout are TTYs, it is
+ * rendered full-screen with a gap chart and can be controlled via keystrokes.
+ * Otherwise each progress update is logged as a plain line to stderr, keeping
+ * stdout free for outputs.
+ *
+ * Progress updates only carry the gap, the objective and its bound are
+ * displayed once the solve's outcome is set via `setStatus`.
+ */
+export class SolveDashboard {
+  readonly interactive = !!process.stdout.isTTY && !!process.stdin.isTTY;
+  private readonly recorder = new ProgressRecorder();
+  private readonly history: string[] = [];
+  private readonly startedAt = Date.now();
+  private status = 'SOLVING';
+  private outcome: api.Schema<'SolveOutcome'> | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  private closed = false;
+
+  constructor(private readonly options: SolveDashboardOptions) {}
+
+  /** Starts displaying the dashboard. */
+  start(): this {
+    if (!this.interactive) {
+      return this;
+    }
+    const {stdin, stdout} = process;
+    stdout.write(ENTER_SCREEN);
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on('data', this.onKey);
+    stdout.on('resize', this.render);
+    this.timer = setInterval(this.render, REFRESH_MILLIS);
+    this.render();
+    return this;
+  }
+
+  /** Records progress from an inline solve. */
+  recordProgress(progress: api.Schema<'SolveProgress'>): void {
+    this.update(() => void this.recorder.recordProgress(progress));
+  }
+
+  /** Records a queued solve's notification. */
+  recordNotification(
+    notif: api.graphqlTypes.FullSolveNotificationFragment
+  ): void {
+    this.update(() => void this.recorder.recordNotification(notif));
+  }
+
+  /**
+   * Updates the solve's status, along with its outcome once it has completed.
+   */
+  setStatus(status: string, outcome?: api.Schema<'SolveOutcome'>): void {
+    this.status = status;
+    this.outcome = outcome;
+    if (outcome && !this.interactive) {
+      process.stderr.write(this.outcomeLine() + '\n');
+    }
+    this.render();
+  }
+
+  /**
+   * Restores the terminal, logging the solve's outcome if one was set so that
+   * it remains visible. This method is idempotent.
+   */
+  close(): void {
+    if (this.closed || !this.interactive) {
+      this.closed = true;
+      return;
+    }
+    this.closed = true;
+    const {stdin, stdout} = process;
+    clearInterval(this.timer);
+    stdout.off('resize', this.render);
+    stdin.off('data', this.onKey);
+    stdin.setRawMode(false);
+    stdin.pause();
+    stdout.write(EXIT_SCREEN);
+    if (this.outcome) {
+      process.stderr.write(this.outcomeLine() + '\n');
+    }
+  }
+
+  private outcomeLine(): string {
+    const elapsed = formatElapsed(Date.now() - this.startedAt);
+    const {objective, bound} = objectiveDetails(this.outcome);
+    return (
+      `[${elapsed}] status=${this.status}, objective=${objective}, ` +
+      `bound=${bound}`
+    );
+  }
+
+  private update(fn: () => void): void {
+    const count = this.recorder.samples().length;
+    fn();
+    const samples = this.recorder.samples();
+    if (samples.length === count) {
+      return;
+    }
+    const line = sampleLine(samples[samples.length - 1]!);
+    if (!this.interactive) {
+      process.stderr.write(line + '\n');
+      return;
+    }
+    this.history.push(line);
+    if (this.history.length > HISTORY_LENGTH) {
+      this.history.shift();
+    }
+    this.render();
+  }
+
+  private readonly onKey = (data: Buffer): void => {
+    const key = data.toString('utf8');
+    if (key === 'c') {
+      this.options.onCancel();
+    } else if (key === 'q' || key === CTRL_C) {
+      (this.options.onQuit ?? this.options.onCancel)();
+    }
+  };
+
+  private readonly render = (): void => {
+    if (this.closed || !this.interactive) {
+      return;
+    }
+    const width = process.stdout.columns ?? 80;
+    const samples = this.recorder.samples();
+    const last = samples[samples.length - 1];
+    const elapsed = formatElapsed(Date.now() - this.startedAt);
+    const {objective, bound} = objectiveDetails(this.outcome);
+    const gap = finiteValue(this.outcome?.relativeGap) ?? last?.relativeGap;
+    const lines = [
+      header(this.options.title, `elapsed ${elapsed}`, width),
+      '',
+      [
+        `status: ${this.status}`,
+        `gap: ${formatPercent(gap)}`,
+        `objective: ${objective}`,
+        `bound: ${bound}`,
+        `cuts: ${last?.cutCount ?? '-'}`,
+        `lp_iterations: ${last?.lpIterationCount ?? '-'}`,
+      ].join(' | '),
+      '',
+      ...gapChart(samples, width),
+      '',
+      'Notifications:',
+      ...(this.history.length ? this.history : ['  (none yet)']),
+      '',
+      '[c] cancel  [q] quit',
+    ];
+    process.stdout.write(CLEAR_SCREEN + lines.join('\n'));
+  };
+}
+
+function header(left: string, right: string, width: number): string {
+  const padding = Math.max(1, width - left.length - right.length);
+  return left + ' '.repeat(padding) + right;
+}
+
+function sampleLine(sample: ProgressSample): string {
+  return (
+    `[${formatElapsed(sample.elapsedMillis)}] ` +
+    `gap=${formatPercent(sample.relativeGap)}, ` +
+    `cuts=${sample.cutCount ?? '-'}, ` +
+    `lp_iterations=${sample.lpIterationCount ?? '-'}`
+  );
+}
+
+/**
+ * Returns the outcome's objective value and the range within which its optimal
+ * value lies, derived from its relative gap since outcomes do not include the
+ * bound itself. Missing values are displayed as `-`.
+ */
+function objectiveDetails(outcome: api.Schema<'SolveOutcome'> | undefined): {
+  readonly objective: string;
+  readonly bound: string;
+} {
+  const value = finiteValue(outcome?.objectiveValue);
+  if (value == null) {
+    return {objective: '-', bound: '-'};
+  }
+  const gap = finiteValue(outcome?.relativeGap);
+  if (gap == null) {
+    return {objective: '' + value, bound: '-'};
+  }
+  const delta = Math.abs(value) * gap;
+  return {
+    objective: '' + value,
+    bound: delta ? `[${value - delta}, ${value + delta}]` : '' + value,
+  };
+}
+
+function finiteValue(val: unknown): number | undefined {
+  if (val == null) {
+    return undefined;
+  }
+  const num = +val;
+  return isFinite(num) ? num : undefined;
+}
+
+/**
+ * Plots the relative gap over time, as a step function of the samples with a
+ * finite gap. The vertical axis starts at zero.
+ */
+export function gapChart(
+  samples: ReadonlyArray<ProgressSample>,
+  width: number
+): ReadonlyArray<string> {
+  const points = samples.filter((s) => s.relativeGap != null);
+  if (!points.length) {
+    return ['  (no feasible solution yet)'];
+  }
+  const maxGap = Math.max(...points.map((p) => p.relativeGap!)) || 1;
+  const duration = points[points.length - 1]!.elapsedMillis || 1;
+  const labels = [formatPercent(maxGap), '0%'];
+  const labelWidth = Math.max(...labels.map((l) => l.length));
+  const plotWidth = Math.max(10, width - labelWidth - 2);
+  const grid = Array.from({length: CHART_HEIGHT}, () =>
+    new Array<string>(plotWidth).fill(' ')
+  );
+  let ix = -1;
+  for (let col = 0; col < plotWidth; col++) {
+    const at = (duration * (col + 1)) / plotWidth;
+    while (ix + 1 < points.length && points[ix + 1]!.elapsedMillis <= at) {
+      ix++;
+    }
+    if (ix < 0) {
+      continue;
+    }
+    const ratio = points[ix]!.relativeGap! / maxGap;
+    const level = Math.round(ratio * (CHART_HEIGHT - 1));
+    grid[CHART_HEIGHT - 1 - level]![col] = '•';
+  }
+  const lines = grid.map((row, rowIx) => {
+    const label =
+      rowIx === 0 ? labels[0]! : rowIx === CHART_HEIGHT - 1 ? labels[1]! : '';
+    return label.padStart(labelWidth) + ' |' + row.join('');
+  });
+  const axis = ' '.repeat(labelWidth) + ' +' + '-'.repeat(plotWidth);
+  const end = formatElapsed(duration);
+  const ticks =
+    ' '.repeat(labelWidth + 2) +
+    '0'.padEnd(Math.max(1, plotWidth - end.length)) +
+    end;
+  return [...lines, axis, ticks];
+}
+
+export function formatPercent(gap: number | undefined): string {
+  return gap == null ? 'inf' : ((10_000 * gap) | 0) / 100 + '%';
+}
+
+export function formatElapsed(millis: number): string {
+  const secs = Math.max(0, Math.floor(millis / 1000));
+  const mins = Math.floor(secs / 60);
+  const hours = Math.floor(mins / 60);
+  const pad = (n: number): string => ('' + n).padStart(2, '0');
+  return hours
+    ? `${hours}:${pad(mins % 60)}:${pad(secs % 60)}`
+    : `${mins}:${pad(secs % 60)}`;
+}
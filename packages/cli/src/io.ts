@@ -1 +1,107 @@
+import {errors} from '@opvious/stl-errors';
+import Table from 'easy-table';
+import YAML from 'yaml';
+
 export const display: (line: string) => void = console.log;
+
+/** Output format of commands which list records. */
+export enum RecordFormat {
+  TABLE = 'table',
+  JSON = 'json',
+  JSONL = 'jsonl',
+  CSV = 'csv',
+  YAML = 'yaml',
+}
+
+/** A record's table cells, keyed by column name. */
+export interface RecordCells {
+  readonly [column: string]: unknown;
+}
+
+/**
+ * Formats records. Tables only include the given cells, with human-friendly
+ * values (for example relative timestamps). All other formats include full
+ * records, with absolute ISO timestamps. Returns undefined if there is nothing
+ * to display.
+ */
+export function formatRecords<R extends object>(
+  format: RecordFormat,
+  records: ReadonlyArray<R>,
+  cells: (rec: R) => RecordCells,
+  opts?: {readonly transposed?: boolean}
+): string | undefined {
+  switch (format) {
+    case RecordFormat.TABLE: {
+      if (!records.length) {
+        return undefined;
+      }
+      const table = new Table();
+      for (const rec of records) {
+        for (const [column, cell] of Object.entries(cells(rec))) {
+          table.cell(column, cell ?? '');
+        }
+        table.newRow();
+      }
+      return opts?.transposed ? table.printTransposed() : '' + table;
+    }
+    case RecordFormat.JSON:
+      return JSON.stringify(records, null, 2);
+    case RecordFormat.JSONL:
+      return records.length
+        ? records.map((r) => JSON.stringify(r)).join('\n')
+        : undefined;
+    case RecordFormat.CSV:
+      return recordsCsv(records);
+    case RecordFormat.YAML:
+      return YAML.stringify(records).trimEnd();
+    default:
+      throw errors.invalid({message: `Invalid format: ${format}`});
+  }
+}
+
+/**
+ * Formats records as CSV, with one column per leaf field. Nested objects'
+ * fields are joined with dots (for example `product.amount`), arrays are
+ * serialized as JSON.
+ */
+function recordsCsv(records: ReadonlyArray<object>): string | undefined {
+  if (!records.length) {
+    return undefined;
+  }
+  const columns = new Map<string, number>();
+  const rows = records.map((rec) => {
+    const row = new Map<number, unknown>();
+    const visit = (obj: object, prefix: string): void => {
+      for (const [key, val] of Object.entries(obj)) {
+        const path = prefix + key;
+        if (val && typeof val == 'object' && !Array.isArray(val)) {
+          visit(val, path + '.');
+          continue;
+        }
+        let ix = columns.get(path);
+        if (ix == null) {
+          ix = columns.size;
+          columns.set(path, ix);
+        }
+        row.set(ix, Array.isArray(val) ? JSON.stringify(val) : val);
+      }
+    };
+    visit(rec, '');
+    return row;
+  });
+  const lines = [[...columns.keys()].map(csvCell).join(',')];
+  for (const row of rows) {
+    const cells: string[] = [];
+    for (let ix = 0; ix < columns.size; ix++) {
+      cells.push(csvCell('' + (row.get(ix) ?? '')));
+    }
+    lines.push(cells.join(','));
+  }
+  return lines.join('\n');
+}
+
+/** Quotes a CSV cell if needed, following RFC 4180. */
+export function csvCell(val: string | number): string {
+  const str = '' + val;
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
@@ -0,0 +1,96 @@
+import * as sut from '../src/dashboard.js';
+
+describe('format percent', () => {
+  test.each<[number | undefined, string]>([
+    [undefined, 'inf'],
+    [0, '0%'],
+    [0.5, '50%'],
+    [0.12345, '12.34%'],
+    [1.5, '150%'],
+  ])('%s: %s', (gap, want) => {
+    expect(sut.formatPercent(gap)).toEqual(want);
+  });
+});
+
+describe('format elapsed', () => {
+  test.each<[number, string]>([
+    [-10, '0:00'],
+    [999, '0:00'],
+    [5_000, '0:05'],
+    [65_500, '1:05'],
+    [3_600_000, '1:00:00'],
+    [3_725_000, '1:02:05'],
+  ])('%s: %s', (millis, want) => {
+    expect(sut.formatElapsed(millis)).toEqual(want);
+  });
+});
+
+describe('gap chart', () => {
+  test('handles missing gaps', () => {
+    expect(sut.gapChart([{elapsedMillis: 100}], 40)).toEqual([
+      '  (no feasible solution yet)',
+    ]);
+  });
+
+  test('plots gaps as a step function', () => {
+    const lines = sut.gapChart(
+      [
+        {elapsedMillis: 0, relativeGap: 1},
+        {elapsedMillis: 500},
+        {elapsedMillis: 1_000, relativeGap: 0.5},
+        {elapsedMillis: 2_000, relativeGap: 0},
+      ],
+      16
+    );
+    expect(lines).toHaveLength(12);
+    expect(lines[0]).toEqual('100% |••••      ');
+    expect(lines[4]).toEqual('     |    ••••• ');
+    expect(lines[9]).toEqual('  0% |         •');
+    expect(lines[10]).toEqual('     +----------');
+    expect(lines[11]).toEqual('      0     0:02');
+  });
+});
+
+describe('solve dashboard', () => {
+  let isTty: boolean;
+  let written: string[];
+
+  beforeEach(() => {
+    isTty = process.stdout.isTTY;
+    process.stdout.isTTY = false;
+    written = [];
+    vi.spyOn(process.stderr, 'write').mockImplementation((data) => {
+      written.push('' + data);
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    process.stdout.isTTY = isTty;
+    vi.restoreAllMocks();
+  });
+
+  test('logs lines when not interactive', () => {
+    const dashboard = new sut.SolveDashboard({
+      title: 'test',
+      onCancel: vi.fn(),
+    }).start();
+    expect(dashboard.interactive).toBe(false);
+    dashboard.recordProgress({
+      kind: 'activity',
+      relativeGap: 0.25,
+      cutCount: 3,
+      lpIterationCount: 12,
+    });
+    dashboard.setStatus('FEASIBLE', {
+      status: 'FEASIBLE',
+      objectiveValue: 10,
+      relativeGap: 0.1,
+    });
+    dashboard.close();
+    expect(written).toEqual([
+      '[0:00] gap=25%, cuts=3, lp_iterations=12\n',
+      '[0:00] status=FEASIBLE, objective=10, bound=[9, 11]\n',
+    ]);
+  });
+});
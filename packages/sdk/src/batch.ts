@@ -0,0 +1,346 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as api from '@opvious/api';
+import {assert} from '@opvious/stl-errors';
+import {EventConsumer, withTypedEmitter} from '@opvious/stl-utils/events';
+import {setTimeout} from 'timers/promises';
+
+import {Uuid} from './client/common.js';
+import {OpviousClient} from './client/index.js';
+
+/** Settled state of a single problem within a batch. */
+export type SolveBatchResult =
+  | {
+      readonly kind: 'outcome';
+      readonly uuid: Uuid;
+      readonly outcome: api.Schema<'SolveOutcome'>;
+      readonly runtimeMillis: number;
+    }
+  | {
+      readonly kind: 'failure';
+      readonly uuid: Uuid;
+      readonly failure: api.Schema<'Failure'>;
+      readonly runtimeMillis: number;
+    }
+  | {
+      readonly kind: 'error';
+      /** Absent if the error happened while queueing the solve. */
+      readonly uuid?: Uuid;
+      readonly error: unknown;
+    }
+  | {
+      readonly kind: 'cancelled';
+      /** Absent if the problem was never queued. */
+      readonly uuid?: Uuid;
+    };
+
+/** Aggregated batch results. */
+export interface SolveBatchSummary {
+  /** Results, in the same order as the batch's problems. */
+  readonly results: ReadonlyArray<SolveBatchResult>;
+
+  /**
+   * Number of problems per final status. Outcomes are counted by their solve
+   * status (for example `OPTIMAL`), other results by their kind in uppercase
+   * (`FAILURE`, `ERROR`, `CANCELLED`).
+   */
+  readonly statusCounts: {readonly [status: string]: number};
+
+  /** Total time taken by the batch. */
+  readonly elapsedMillis: number;
+
+  /**
+   * Statistics over the runtime of solves which completed with an outcome or
+   * failure, measured from when they were queued. Absent if there were none.
+   */
+  readonly runtimeStats?: {
+    readonly min: number;
+    readonly max: number;
+    readonly mean: number;
+    readonly median: number;
+  };
+}
+
+export interface SolveBatchListeners {
+  /** The problem at the given index was queued. */
+  queued(index: number, uuid: Uuid): void;
+
+  /** The problem at the given index settled. */
+  settled(index: number, result: SolveBatchResult): void;
+
+  /** Batch-level progress, emitted after each problem settles. */
+  progress(settled: number, total: number): void;
+
+  /** All problems settled. No more events will be emitted after this one. */
+  done(summary: SolveBatchSummary): void;
+}
+
+/**
+ * Type-safe event-emitter used for tracking a batch of queued solves. See the
+ * associated listeners for more information.
+ */
+export interface SolveBatch extends EventConsumer<SolveBatchListeners> {
+  /**
+   * Cancels all pending solves and stops queueing new ones, resolving with the
+   * number of solves which were cancelled.
+   */
+  cancel(): Promise<number>;
+
+  /** Resolves with the batch's summary once all problems have settled. */
+  summary(): Promise<SolveBatchSummary>;
+}
+
+export interface SolveBatchOptions {
+  /**
+   * Maximum number of concurrently pending solves, must be at least 1.
+   * Defaults to 8.
+   */
+  readonly concurrency?: number;
+
+  /** Delay before the first poll, and initial backoff delay. Defaults to 500. */
+  readonly initialIntervalMillis?: number;
+
+  /** Maximum delay between two polling rounds. Defaults to 10_000. */
+  readonly maxIntervalMillis?: number;
+
+  /** Signal which cancels the batch when aborted. */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Queues problems with bounded concurrency and tracks them until they all
+ * settle. All pending solves are polled together in rounds, backing off while
+ * none of them completes.
+ */
+export function startSolveBatch(
+  client: OpviousClient,
+  problems: Iterable<api.Schema<'Problem'>>,
+  opts?: SolveBatchOptions
+): SolveBatch {
+  const concurrency = opts?.concurrency;
+  assert(
+    concurrency == null || concurrency >= 1,
+    'Batch concurrency must be at least 1 (got %d)',
+    concurrency
+  );
+  const runner = new BatchRunner(client, [...problems], opts);
+  const summary = new Promise<SolveBatchSummary>((ok, fail) => {
+    runner.onDone = ok;
+    runner.onError = fail;
+  });
+  summary.catch(() => {}); // Errors are also emitted.
+  const batch = withTypedEmitter<SolveBatchListeners>(async (ee) => {
+    runner.emit = (ev, ...args) => void ee.emit(ev, ...args);
+    await runner.run();
+  });
+  return Object.assign(batch, {
+    cancel: () => runner.cancel(),
+    summary: () => summary,
+  });
+}
+
+type Emit = <E extends keyof SolveBatchListeners>(
+  ev: E,
+  ...args: Parameters<SolveBatchListeners[E]>
+) => void;
+
+interface Pending {
+  readonly index: number;
+  readonly uuid: Uuid;
+  readonly queuedAt: number;
+}
+
+class BatchRunner {
+  emit: Emit = () => {};
+  onDone: (summary: SolveBatchSummary) => void = () => {};
+  onError: (err: unknown) => void = () => {};
+  private readonly results: (SolveBatchResult | undefined)[];
+  private readonly pending = new Map<Uuid, Pending>();
+  private readonly ac = new AbortController();
+  private nextIndex = 0;
+  private settledCount = 0;
+  private cancelled = false;
+  private readonly onAbort = (): void => void this.cancel();
+  constructor(
+    private readonly client: OpviousClient,
+    private readonly problems: ReadonlyArray<api.Schema<'Problem'>>,
+    private readonly options: SolveBatchOptions | undefined
+  ) {
+    this.results = new Array(problems.length);
+    options?.signal?.addEventListener('abort', this.onAbort, {once: true});
+  }
+
+  async run(): Promise<void> {
+    const {problems, options} = this;
+    const concurrency = options?.concurrency ?? 8;
+    const initialInterval = options?.initialIntervalMillis ?? 500;
+    const maxInterval = options?.maxIntervalMillis ?? 10_000;
+    const start = Date.now();
+    try {
+      let interval = initialInterval;
+      while (this.settledCount < problems.length && !this.cancelled) {
+        while (
+          !this.cancelled &&
+          this.pending.size < concurrency &&
+          this.nextIndex < problems.length
+        ) {
+          await this.queue(this.nextIndex++);
+        }
+        if (!this.pending.size) {
+          continue;
+        }
+        try {
+          await setTimeout(interval, undefined, {signal: this.ac.signal});
+        } catch (_err) {
+          break; // Cancelled.
+        }
+        const settled = await this.pollAll();
+        interval = settled
+          ? initialInterval
+          : Math.min(2 * interval, maxInterval);
+      }
+      for (const [index] of this.problems.entries()) {
+        if (!this.results[index]) {
+          this.settle(index, {kind: 'cancelled'});
+        }
+      }
+      const summary = summarize(this.results as SolveBatchResult[], start);
+      this.emit('done', summary);
+      this.onDone(summary);
+    } catch (err) {
+      this.onError(err);
+      throw err;
+    } finally {
+      options?.signal?.removeEventListener('abort', this.onAbort);
+    }
+  }
+
+  async cancel(): Promise<number> {
+    if (this.cancelled) {
+      return 0;
+    }
+    this.cancelled = true;
+    this.ac.abort();
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    for (const {index, uuid} of pending) {
+      this.settle(index, {kind: 'cancelled', uuid});
+    }
+    const cancelled = await Promise.allSettled(
+      pending.map(({uuid}) => this.client.cancelSolve(uuid))
+    );
+    return cancelled.filter((c) => c.status === 'fulfilled' && c.value).length;
+  }
+
+  private async queue(index: number): Promise<void> {
+    const problem = this.problems[index]!;
+    let uuid;
+    try {
+      ({uuid} = await this.client.queueSolve({problem}));
+    } catch (error) {
+      this.settle(index, {kind: 'error', error});
+      return;
+    }
+    if (this.cancelled) {
+      await this.client.cancelSolve(uuid).catch(() => {});
+      this.settle(index, {kind: 'cancelled', uuid});
+      return;
+    }
+    this.pending.set(uuid, {index, uuid, queuedAt: Date.now()});
+    this.emit('queued', index, uuid);
+  }
+
+  /** Polls all pending solves, returning true if any of them settled. */
+  private async pollAll(): Promise<boolean> {
+    let settled = false;
+    await Promise.all(
+      [...this.pending.values()].map(async ({index, uuid, queuedAt}) => {
+        let solve;
+        try {
+          solve = await this.client.pollSolve(uuid);
+        } catch (error) {
+          if (this.pending.delete(uuid)) {
+            this.settle(index, {kind: 'error', uuid, error});
+            settled = true;
+          }
+          return;
+        }
+        const {failure, outcome} = solve;
+        if (
+          (failure == null && outcome == null) ||
+          !this.pending.delete(uuid)
+        ) {
+          return;
+        }
+        const runtimeMillis = Date.now() - queuedAt;
+        this.settle(
+          index,
+          failure != null
+            ? {kind: 'failure', uuid, failure, runtimeMillis}
+            : {kind: 'outcome', uuid, outcome: outcome!, runtimeMillis}
+        );
+        settled = true;
+      })
+    );
+    return settled;
+  }
+
+  private settle(index: number, result: SolveBatchResult): void {
+    if (this.results[index]) {
+      return;
+    }
+    this.results[index] = result;
+    this.settledCount++;
+    this.emit('settled', index, result);
+    this.emit('progress', this.settledCount, this.problems.length);
+  }
+}
+
+function summarize(
+  results: ReadonlyArray<SolveBatchResult>,
+  start: number
+): SolveBatchSummary {
+  const statusCounts: {[status: string]: number} = {};
+  const runtimes: number[] = [];
+  for (const res of results) {
+    const status =
+      res.kind === 'outcome' ? res.outcome.status : res.kind.toUpperCase();
+    statusCounts[status] = (statusCounts[status] ?? 0) + 1;
+    if (res.kind === 'outcome' || res.kind === 'failure') {
+      runtimes.push(res.runtimeMillis);
+    }
+  }
+  runtimes.sort((a, b) => a - b);
+  const mid = runtimes.length >> 1;
+  return {
+    results,
+    statusCounts,
+    elapsedMillis: Date.now() - start,
+    runtimeStats: runtimes.length
+      ? {
+          min: runtimes[0]!,
+          max: runtimes[runtimes.length - 1]!,
+          mean: runtimes.reduce((a, b) => a + b, 0) / runtimes.length,
+          median:
+            runtimes.length % 2
+              ? runtimes[mid]!
+              : (runtimes[mid - 1]! + runtimes[mid]!) / 2,
+        }
+      : undefined,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as api from '@opvious/api';
+
+import {KeyItem, ProblemIssue, validateProblem} from './validation.js';
+
+/** Problem parameter entry, the value defaults to 1. */
+export interface ProblemEntry {
+  readonly key: ReadonlyArray<KeyItem>;
+  readonly value?: number;
+}
+
+/** Problem produced by a builder along with any validation issues. */
+export interface BuiltProblem {
+  readonly problem: api.Schema<'Problem'>;
+  /** Validation issues, if this is empty the problem is valid. */
+  readonly issues: ReadonlyArray<ProblemIssue>;
+}
+
+/**
+ * Problem builder, which validates inputs against a formulation's outline
+ * locally. This allows catching most invalid inputs before sending them to the
+ * API.
+ */
+export class ProblemBuilder {
+  private readonly dimensions = new Map<string, ReadonlyArray<KeyItem>>();
+  private readonly parameters = new Map<
+    string,
+    {
+      readonly entries: ReadonlyArray<ProblemEntry>;
+      readonly defaultValue?: number;
+    }
+  >();
+  private options: api.Schema<'SolveOptions'> | undefined;
+  private constructor(
+    private readonly formulation: api.Schema<'Problem'>['formulation'],
+    /** Outline used to validate the problem's inputs. */
+    readonly outline: api.Schema<'Outline'>
+  ) {}
+
+  /** Creates a new builder from a formulation's name and outline. */
+  static create(args: {
+    readonly formulationName: string;
+    readonly tagName?: string;
+    readonly outline: api.Schema<'Outline'>;
+  }): ProblemBuilder {
+    return new ProblemBuilder(
+      {name: args.formulationName, specificationTagName: args.tagName},
+      args.outline
+    );
+  }
+
+  /**
+   * Creates a new builder from a fetched outline (see
+   * `OpviousClient.fetchFormulationOutline`).
+   */
+  static forFormulation(form: {
+    readonly name: string;
+    readonly tag: {
+      readonly name: string;
+      readonly specification: {readonly outline: api.Schema<'Outline'>};
+    };
+  }): ProblemBuilder {
+    return ProblemBuilder.create({
+      formulationName: form.name,
+      tagName: form.tag.name,
+      outline: form.tag.specification.outline,
+    });
+  }
+
+  /** Sets a dimension's items, replacing any previously set ones. */
+  setDimension(label: string, items: Iterable<KeyItem>): this {
+    this.dimensions.set(label, [...items]);
+    return this;
+  }
+
+  /**
+   * Sets a parameter's entries, replacing any previously set ones. Entries can
+   * also be specified as a map from key to value.
+   */
+  setParameter(
+    label: string,
+    entries:
+      | Iterable<ProblemEntry>
+      | ReadonlyMap<ReadonlyArray<KeyItem>, number>,
+    defaultValue?: number
+  ): this {
+    const arr: ProblemEntry[] = [];
+    if (isMap(entries)) {
+      for (const [key, value] of entries) {
+        arr.push({key, value});
+      }
+    } else {
+      arr.push(...entries);
+    }
+    this.parameters.set(label, {entries: arr, defaultValue});
+    return this;
+  }
+
+  /** Sets a scalar (rank 0) parameter's value. */
+  setScalar(label: string, value: number): this {
+    return this.setParameter(label, [{key: [], value}]);
+  }
+
+  /** Merges solve options into any previously set ones. */
+  setOptions(options: api.Schema<'SolveOptions'>): this {
+    this.options = {...this.options, ...options};
+    return this;
+  }
+
+  /** Returns all validation issues for the inputs set so far. */
+  validate(): ReadonlyArray<ProblemIssue> {
+    return this.build().issues;
+  }
+
+  /**
+   * Returns the problem along with any validation issues. The problem should
+   * only be solved if there are no issues.
+   */
+  build(): BuiltProblem {
+    const problem: api.Schema<'Problem'> = {
+      formulation: this.formulation,
+      inputs: {
+        dimensions: [...this.dimensions].map(([label, items]) => ({
+          label,
+          items: [...items],
+        })),
+        parameters: [...this.parameters].map(([label, param]) => ({
+          label,
+          entries: param.entries.map((e) => ({
+            key: [...e.key],
+            value: e.value,
+          })),
+          defaultValue: param.defaultValue,
+        })),
+      },
+      options: this.options,
+    };
+    return {problem, issues: validateProblem(problem, this.outline)};
+  }
+}
+
+function isMap<K, V>(arg: unknown): arg is ReadonlyMap<K, V> {
+  return arg instanceof Map;
+}
@@ -0,0 +1,273 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as api from '@opvious/api';
+import {readdir, readFile} from 'fs/promises';
+import path from 'path';
+import YAML from 'yaml';
+
+import {clientErrors, isSystemError} from './client/common.js';
+import {isRecord} from './common.js';
+import {KeyItem} from './validation.js';
+
+/** Contents of a problem bundle's manifest. */
+export interface ProblemBundleManifest {
+  readonly formulation: api.Schema<'Problem'>['formulation'];
+  readonly options?: api.Schema<'SolveOptions'>;
+  readonly transformations?: api.Schema<'Problem'>['transformations'];
+  /** Default values, keyed by parameter label. */
+  readonly defaultValues?: {readonly [label: string]: number};
+}
+
+const MANIFEST_NAMES = ['manifest.yaml', 'manifest.yml', 'manifest.json'];
+
+const VALUE_COLUMN = 'value';
+
+/**
+ * Loads a problem from a directory bundle with the following layout:
+ *
+ * + `manifest.yaml` (or `.yml`, `.json`), containing the formulation reference
+ *   along with optional options, transformations, and default parameter values
+ *   (see `ProblemBundleManifest`);
+ * + `dimensions/<label>.csv`, one file per dimension with a header row and one
+ *   item per row in its first column;
+ * + `parameters/<label>.csv`, one file per parameter with a header row and one
+ *   entry per row. Each column is a key item, except for a trailing column
+ *   named `value` which holds the entry's value. Values default to 1 when this
+ *   column is omitted.
+ *
+ * Each key column has a single type. Parameter columns named after a dimension
+ * have the same type as its items, other columns (including dimensions' items)
+ * are numeric if all their cells are canonical representations of numbers (for
+ * example `12` but not `012`) and strings otherwise. Values may use any numeric
+ * notation (for example `0.50` or `1e-3`).
+ */
+export async function loadProblemBundle(
+  dp: string
+): Promise<api.Schema<'Problem'>> {
+  const names = new Set(await readdir(dp));
+  const manifestName = MANIFEST_NAMES.find((n) => names.has(n));
+  if (!manifestName) {
+    throw clientErrors.invalidProblemBundle(dp, 'missing manifest');
+  }
+  const parsed: unknown = YAML.parse(
+    await readFile(path.join(dp, manifestName), 'utf8')
+  );
+  const issue = manifestIssue(parsed);
+  if (issue) {
+    throw clientErrors.invalidProblemBundle(dp, issue);
+  }
+  const manifest = parsed as ProblemBundleManifest;
+
+  const dimensions: api.Schema<'Dimension'>[] = [];
+  const dimensionTypes = new Map<string, KeyType>();
+  for (const [label, rows] of await readCsvFolder(dp, 'dimensions')) {
+    const type = columnType(rows, 0);
+    dimensionTypes.set(label, type);
+    dimensions.push({label, items: rows.map((r) => r[0]!).map(keyOf(type))});
+  }
+
+  const defaultValues = new Map(Object.entries(manifest.defaultValues ?? {}));
+  const parameters: api.Schema<'Tensor'>[] = [];
+  for (const [label, rows, header] of await readCsvFolder(dp, 'parameters')) {
+    const hasValue = header[header.length - 1] === VALUE_COLUMN;
+    const keyHeader = hasValue ? header.slice(0, -1) : header;
+    const keyTypes = keyHeader.map(
+      (name, ix) => dimensionTypes.get(name) ?? columnType(rows, ix)
+    );
+    const entries: api.Schema<'TensorEntry'>[] = [];
+    for (const row of rows) {
+      const key: KeyItem[] = [];
+      for (const [ix, type] of keyTypes.entries()) {
+        const cell = row[ix]!;
+        if (type === 'number' && !isCanonicalNumber(cell)) {
+          throw clientErrors.invalidProblemBundle(
+            dp,
+            `non-numeric key item ${cell} for parameter ${label}`
+          );
+        }
+        key.push(keyOf(type)(cell));
+      }
+      if (!hasValue) {
+        entries.push({key});
+        continue;
+      }
+      const cell = row[row.length - 1]!;
+      const value = Number(cell);
+      if (!cell.trim() || isNaN(value)) {
+        throw clientErrors.invalidProblemBundle(
+          dp,
+          `non-numeric value ${cell} for parameter ${label}`
+        );
+      }
+      entries.push({key, value});
+    }
+    parameters.push({label, entries, defaultValue: defaultValues.get(label)});
+    defaultValues.delete(label);
+  }
+  const [extra] = defaultValues.keys();
+  if (extra != null) {
+    throw clientErrors.invalidProblemBundle(
+      dp,
+      `default value for missing parameter ${extra}`
+    );
+  }
+
+  return {
+    formulation: manifest.formulation,
+    inputs: {dimensions, parameters},
+    options: manifest.options,
+    transformations: manifest.transformations,
+  };
+}
+
+type CsvTable = readonly [
+  label: string,
+  rows: ReadonlyArray<string[]>,
+  header: ReadonlyArray<string>,
+];
+
+/** Reads all CSV files within a bundle's subfolder, if it exists. */
+async function readCsvFolder(
+  dp: string,
+  folder: string
+): Promise<ReadonlyArray<CsvTable>> {
+  let names;
+  try {
+    names = await readdir(path.join(dp, folder));
+  } catch (err) {
+    if (isSystemError(err, 'ENOENT')) {
+      return [];
+    }
+    throw err;
+  }
+  const tables: CsvTable[] = [];
+  for (const name of names.sort()) {
+    if (path.extname(name) !== '.csv') {
+      continue;
+    }
+    const str = await readFile(path.join(dp, folder, name), 'utf8');
+    const [header, ...rows] = parseCsv(str);
+    if (!header) {
+      throw clientErrors.invalidProblemBundle(dp, `empty file ${name}`);
+    }
+    for (const [ix, row] of rows.entries()) {
+      if (row.length !== header.length) {
+        throw clientErrors.invalidProblemBundle(
+          dp,
+          `row ${ix + 1} of ${name} has ${row.length} cell(s) but its ` +
+            `header has ${header.length}`
+        );
+      }
+    }
+    tables.push([path.basename(name, '.csv'), rows, header]);
+  }
+  return tables;
+}
+
+/** Returns a description of the manifest's first invalid property, if any. */
+function manifestIssue(manifest: unknown): string | undefined {
+  if (!isRecord(manifest)) {
+    return 'manifest is not an object';
+  }
+  const {formulation, options, transformations, defaultValues} = manifest;
+  if (!isRecord(formulation)) {
+    return 'missing formulation';
+  }
+  if (options !== undefined && !isRecord(options)) {
+    return 'options are not an object';
+  }
+  if (transformations !== undefined && !Array.isArray(transformations)) {
+    return 'transformations are not an array';
+  }
+  if (
+    defaultValues !== undefined &&
+    !(
+      isRecord(defaultValues) &&
+      Object.values(defaultValues).every((v) => typeof v == 'number')
+    )
+  ) {
+    return 'default values are not numbers keyed by parameter label';
+  }
+  return undefined;
+}
+
+type KeyType = 'number' | 'string';
+
+function columnType(rows: ReadonlyArray<string[]>, ix: number): KeyType {
+  return rows.every((r) => isCanonicalNumber(r[ix]!)) ? 'number' : 'string';
+}
+
+function isCanonicalNumber(cell: string): boolean {
+  return cell !== '' && String(Number(cell)) === cell;
+}
+
+function keyOf(type: KeyType): (cell: string) => KeyItem {
+  return type === 'number' ? Number : String;
+}
+
+/**
+ * Parses RFC 4180 CSV data. Quoted cells may contain commas, newlines, and
+ * escaped (doubled) quotes. Blank lines are ignored.
+ */
+function parseCsv(str: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let ix = 0;
+  const endRow = (): void => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+  while (ix < str.length) {
+    const char = str[ix++]!;
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (str[ix] === '"') {
+        cell += char;
+        ix++;
+      } else {
+        quoted = false;
+      }
+      continue;
+    }
+    switch (char) {
+      case '"':
+        quoted = true;
+        break;
+      case ',':
+        row.push(cell);
+        cell = '';
+        break;
+      case '\r':
+        break;
+      case '\n':
+        endRow();
+        break;
+      default:
+        cell += char;
+    }
+  }
+  endRow();
+  return rows;
+}
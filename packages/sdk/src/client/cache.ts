@@ -0,0 +1,179 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as api from '@opvious/api';
+import {Logger} from '@opvious/stl-telemetry';
+import {createHash, randomUUID} from 'crypto';
+import {mkdir, readFile, rename, rm, writeFile} from 'fs/promises';
+import path from 'path';
+
+import {jsonChunks} from '../json.js';
+import {isSystemError, SolvedProblem} from './common.js';
+
+/** Cached solve, along with the time at which it was stored. */
+export interface SolveCacheEntry {
+  readonly outcome: api.Schema<'SolveOutcome'>;
+  readonly outputs?: api.Schema<'SolveOutputs'>;
+  /** Epoch milliseconds. */
+  readonly storedAt: number;
+}
+
+/** Pluggable solve cache storage. */
+export interface SolveCacheStorage {
+  get(key: string): Promise<SolveCacheEntry | undefined>;
+  set(key: string, entry: SolveCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Solve cache options. Problems are keyed by a hash of their canonical
+ * representation (see `solveCacheKey`).
+ */
+export interface SolveCacheOptions {
+  readonly storage: SolveCacheStorage;
+
+  /** Maximum age of entries returned from the cache. Defaults to no limit. */
+  readonly ttlMillis?: number;
+}
+
+/**
+ * Returns the cache key of a problem, a SHA-256 hash of its JSON
+ * representation with sorted object keys. Note that problems referencing a
+ * formulation without a tag are keyed independently of the tag they resolve
+ * to, consider setting a TTL when using them.
+ */
+export function solveCacheKey(problem: api.Schema<'Problem'>): string {
+  const hash = createHash('sha256');
+  for (const chunk of jsonChunks(problem, {sortKeys: true})) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Returns an in-memory storage which evicts the least recently used entries
+ * once it holds more than `maxEntries` (default 128).
+ */
+export function memorySolveCacheStorage(opts?: {
+  readonly maxEntries?: number;
+}): SolveCacheStorage {
+  const maxEntries = opts?.maxEntries ?? 128;
+  const entries = new Map<string, SolveCacheEntry>();
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        // Maps iterate in insertion order, so reinserting marks it as recent.
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Returns a storage which persists each entry as a JSON file within the given
+ * directory, creating it if needed.
+ */
+export function fileSolveCacheStorage(dp: string): SolveCacheStorage {
+  const entryPath = (key: string): string => path.join(dp, key + '.json');
+  return {
+    async get(key) {
+      let str;
+      try {
+        str = await readFile(entryPath(key), 'utf8');
+      } catch (err) {
+        if (isSystemError(err, 'ENOENT')) {
+          return undefined;
+        }
+        throw err;
+      }
+      return JSON.parse(str);
+    },
+    async set(key, entry) {
+      await mkdir(dp, {recursive: true});
+      // Write then rename, so that concurrent readers never see partial files.
+      const tp = path.join(dp, `.${key}.${randomUUID()}.tmp`);
+      await writeFile(tp, JSON.stringify(entry));
+      await rename(tp, entryPath(key));
+    },
+    async delete(key) {
+      await rm(entryPath(key), {force: true});
+    },
+  };
+}
+
+/**
+ * Cache wrapper which enforces the TTL. Storage errors are logged and treated
+ * as misses, they never fail a solve.
+ */
+export class SolveCache {
+  constructor(
+    private readonly options: SolveCacheOptions,
+    private readonly log: Logger
+  ) {}
+
+  async lookup(key: string): Promise<SolvedProblem | undefined> {
+    const {storage, ttlMillis} = this.options;
+    let entry;
+    try {
+      entry = await storage.get(key);
+      if (
+        entry &&
+        ttlMillis != null &&
+        Date.now() - entry.storedAt > ttlMillis
+      ) {
+        await storage.delete(key);
+        entry = undefined;
+      }
+    } catch (err) {
+      this.log.warn({err}, 'Unable to read from solve cache.');
+      return undefined;
+    }
+    this.log.debug('Looked up solve cache. [key=%s, hit=%s]', key, !!entry);
+    return entry
+      ? {outcome: entry.outcome, outputs: entry.outputs, cached: true}
+      : undefined;
+  }
+
+  async store(key: string, solved: SolvedProblem): Promise<void> {
+    const {outcome, outputs} = solved;
+    try {
+      await this.options.storage.set(key, {
+        outcome,
+        outputs,
+        storedAt: Date.now(),
+      });
+    } catch (err) {
+      this.log.warn({err}, 'Unable to write to solve cache.');
+    }
+  }
+}
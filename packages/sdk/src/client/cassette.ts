@@ -0,0 +1,238 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import {Logger} from '@opvious/stl-telemetry';
+import {PathLike} from '@opvious/stl-utils/files';
+import {appendFile, readFile, writeFile} from 'fs/promises';
+import fetch, {Headers, RequestInit, Response} from 'node-fetch';
+import stream from 'stream';
+import zlib from 'zlib';
+
+import {clientErrors} from './common.js';
+
+/**
+ * Cassette used to record API interactions, or to replay previously recorded
+ * ones without network access.
+ */
+export interface CassetteOptions {
+  /**
+   * In `record` mode, all interactions are sent to the API and written to the
+   * cassette (overwriting any existing one). In `replay` mode, requests are
+   * matched against the cassette's interactions and never sent.
+   */
+  readonly mode: 'record' | 'replay';
+
+  /** Cassette file path. Interactions are stored as JSON lines. */
+  readonly path: PathLike;
+}
+
+/** Recorded request and response pair. */
+export interface CassetteInteraction {
+  readonly request: {
+    readonly method: string;
+    /** Path and query, relative to the API endpoint. */
+    readonly url: string;
+    readonly headers: {readonly [name: string]: string};
+    /** Decompressed body. */
+    readonly body?: string;
+  };
+  readonly response: {
+    readonly status: number;
+    readonly headers: {readonly [name: string]: string};
+    /** Decoded body. */
+    readonly body: string;
+  };
+}
+
+const REDACTED = '<redacted>';
+
+const REDACTED_HEADERS = new Set(['authorization']);
+
+// Bodies are stored decoded, so the original encoding headers no longer apply.
+const DROPPED_RESPONSE_HEADERS = new Set([
+  'content-encoding',
+  'content-length',
+  'transfer-encoding',
+]);
+
+/** Returns a fetch implementation which records to or replays a cassette. */
+export function cassetteFetch(
+  opts: CassetteOptions,
+  log: Logger
+): typeof fetch {
+  return opts.mode === 'record'
+    ? recordingFetch(opts.path, log)
+    : replayingFetch(opts.path, log);
+}
+
+function recordingFetch(fp: PathLike, log: Logger): typeof fetch {
+  // Writes are chained so that interactions are appended in order of
+  // completion. The cassette is truncated when the first request is sent.
+  let writes: Promise<void> | undefined;
+
+  function write(fn: () => Promise<void>): Promise<void> {
+    writes = (writes ?? Promise.resolve()).then(fn).catch((err) => {
+      log.error({err}, 'Unable to write to cassette.');
+    });
+    return writes;
+  }
+
+  return async (url, init): Promise<Response> => {
+    if (!writes) {
+      void write(() => writeFile(fp, ''));
+    }
+    const {body, buffer} = await requestBody(init);
+    const res = await fetch(url, {...init, body: buffer});
+
+    const chunks: Buffer[] = [];
+    const tap = new stream.Transform({
+      transform(chunk, _enc, cb): void {
+        chunks.push(chunk);
+        cb(null, chunk);
+      },
+      flush(cb): void {
+        const interaction: CassetteInteraction = {
+          request: {
+            method: init?.method ?? 'GET',
+            url: relativeUrl(url),
+            headers: redactedHeaders(init?.headers),
+            body,
+          },
+          response: {
+            status: res.status,
+            headers: responseHeaders(res.headers),
+            body: Buffer.concat(chunks).toString('utf8'),
+          },
+        };
+        // The response only ends once its interaction is written, so that it
+        // is available as soon as the response is consumed.
+        write(() => appendFile(fp, JSON.stringify(interaction) + '\n')).then(
+          () => void cb()
+        );
+      },
+    });
+    if (res.body) {
+      stream.pipeline(res.body, tap, () => {});
+    } else {
+      tap.end();
+    }
+    return new Response(tap, {
+      status: res.status,
+      statusText: res.statusText,
+      headers: res.headers,
+    });
+  };
+}
+
+function replayingFetch(fp: PathLike, log: Logger): typeof fetch {
+  let interactions: Promise<CassetteInteraction[]> | undefined;
+
+  async function loadInteractions(): Promise<CassetteInteraction[]> {
+    const str = await readFile(fp, 'utf8');
+    const loaded = str
+      .split('\n')
+      .filter((l) => l.trim())
+      .map((l) => JSON.parse(l));
+    log.debug('Loaded %s cassette interaction(s).', loaded.length);
+    return loaded;
+  }
+
+  return async (url, init): Promise<Response> => {
+    interactions ??= loadInteractions();
+    const pending = await interactions;
+    const method = init?.method ?? 'GET';
+    const rel = relativeUrl(url);
+    const {body} = await requestBody(init);
+    const ix = pending.findIndex(
+      (i) =>
+        i.request.method === method &&
+        i.request.url === rel &&
+        (i.request.body ?? '') === (body ?? '')
+    );
+    const interaction = ix < 0 ? undefined : pending.splice(ix, 1)[0];
+    if (!interaction) {
+      throw clientErrors.unmatchedCassetteRequest(method, rel);
+    }
+    const {response} = interaction;
+    return new Response(response.body, {
+      status: response.status,
+      headers: response.headers,
+    });
+  };
+}
+
+/**
+ * Returns the request's decompressed body (for recording and matching) along
+ * with a buffered copy of the raw body (to send).
+ */
+async function requestBody(init: RequestInit | undefined): Promise<{
+  readonly body?: string;
+  readonly buffer?: Buffer | string;
+}> {
+  const raw = init?.body;
+  if (raw == null) {
+    return {};
+  }
+  if (typeof raw == 'string') {
+    return {body: raw, buffer: raw};
+  }
+  let buffer;
+  if (Buffer.isBuffer(raw)) {
+    buffer = raw;
+  } else if (raw instanceof stream.Readable) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of raw) {
+      chunks.push(Buffer.from(chunk));
+    }
+    buffer = Buffer.concat(chunks);
+  } else {
+    throw clientErrors.unsupportedCassetteBody(raw.constructor.name);
+  }
+  const encoding = new Headers(init?.headers).get('content-encoding');
+  const decoded =
+    encoding === 'br'
+      ? zlib.brotliDecompressSync(buffer)
+      : encoding === 'gzip'
+        ? zlib.gunzipSync(buffer)
+        : buffer;
+  return {body: decoded.toString('utf8'), buffer};
+}
+
+function relativeUrl(url: unknown): string {
+  const u = new URL('' + url);
+  return u.pathname + u.search;
+}
+
+function redactedHeaders(headers: RequestInit['headers']): {
+  [name: string]: string;
+} {
+  const ret: {[name: string]: string} = {};
+  for (const [name, value] of new Headers(headers)) {
+    ret[name] = REDACTED_HEADERS.has(name) ? REDACTED : value;
+  }
+  return ret;
+}
+
+function responseHeaders(headers: Headers): {[name: string]: string} {
+  const ret: {[name: string]: string} = {};
+  for (const [name, value] of headers) {
+    if (!DROPPED_RESPONSE_HEADERS.has(name)) {
+      ret[name] = value;
+    }
+  }
+  return ret;
+}
@@ -22,8 +22,11 @@ import {EventConsumer} from '@opvious/stl-utils/events';
 import type {Encoder, ResponseCode} from 'abaca-runtime';
 import * as gql from 'graphql';
 import fetch, {FetchError, Response} from 'node-fetch';
+import stream from 'stream';
 import zlib from 'zlib';
 
+import {jsonChunks} from '../json.js';
+
 export type Label = graphqlTypes.Scalars['Label']['output'];
 
 export type Uuid = graphqlTypes.Scalars['Uuid']['output'];
@@ -55,10 +58,85 @@ export const [clientErrors, clientErrorCodes] = errorFactories({
         errs.map(formatError).join(', '),
       tags: {errors: errs, extensions},
     }),
+    solveErrored: (res: Response, err: SolveErrorDetails) => {
+      const trace = res.headers.get(TRACE_HEADER) ?? undefined;
+      return {
+        message: `Solve${traceDetails(trace)} errored: ${err.message}`,
+        tags: {code: err.code, trace, details: err.tags},
+      };
+    },
+    infeasibleProblem: (outcome: Schema<'SolveOutcome'>) => ({
+      message: 'Problem is infeasible',
+      tags: {outcome},
+    }),
+    unboundedProblem: (outcome: Schema<'SolveOutcome'>) => ({
+      message: 'Problem is unbounded',
+      tags: {outcome},
+    }),
+    callAborted: (reason: unknown) => ({
+      message: 'API call was aborted',
+      cause: reason,
+    }),
+    queuedSolveFailed: (uuid: Uuid, failure: Schema<'Failure'>) => ({
+      message: `Queued solve ${uuid} failed: ${JSON.stringify(failure)}`,
+      tags: {uuid, failure},
+    }),
+    callTimedOut: (millis: number) => ({
+      message: `API call timed out after ${millis} milliseconds`,
+      tags: {millis},
+    }),
+    unmatchedCassetteRequest: (method: string, url: string) => ({
+      message: `No recorded cassette interaction matches ${method} ${url}`,
+      tags: {method, url},
+    }),
+    unsupportedCassetteBody: (type: string) => ({
+      message: `Cassettes do not support ${type} request bodies`,
+      tags: {type},
+    }),
+    proxyConnectFailed: (proxy: string, status: number | undefined) => ({
+      message: `Proxy ${proxy} rejected tunnel with status ${status}`,
+      tags: {proxy, status},
+    }),
+    proxyConnectAborted: (proxy: string, cause: unknown) => ({
+      message: `Tunnel through proxy ${proxy} was aborted`,
+      tags: {proxy},
+      cause,
+    }),
+    problemFetchFailed: (url: string, status: number) => ({
+      message: `Unable to fetch problem from ${url} (status ${status})`,
+      tags: {url, status},
+    }),
+    invalidProblemBundle: (path: string, reason: string) => ({
+      message: `Invalid problem bundle at ${path}: ${reason}`,
+      tags: {path, reason},
+    }),
+    invalidModel: (
+      format: string,
+      line: number | undefined,
+      reason: string
+    ) => ({
+      message:
+        `Invalid ${format.toUpperCase()} model` +
+        (line == null ? '' : ` at line ${line}`) +
+        `: ${reason}`,
+      tags: {format, line, reason},
+    }),
+    unknownResult: (label: string) => ({
+      message: `No result with label ${label} is available`,
+      tags: {label},
+    }),
+    missingSolveOutputs: (uuid: Uuid) => ({
+      message: `Queued solve ${uuid} has no outputs`,
+      tags: {uuid},
+    }),
     unknownSolve: (uuid: Uuid) => ({
       message: `Queued solve ${uuid} was not found`,
       tags: {uuid},
     }),
+    invalidSources: (errorCount: number) => ({
+      message: `Formulation sources have ${errorCount} fatal error(s)`,
+      tags: {errorCount},
+    }),
     unknownFormulation: (formulation: string, tag?: string) => ({
       message:
         `Formulation ${formulation} ${tag ? ` (${tag})` : ''}` +
@@ -68,34 +146,154 @@ export const [clientErrors, clientErrorCodes] = errorFactories({
   },
 });
 
+/** Error reported by the API while streaming an inline solve. */
+export interface SolveErrorDetails {
+  readonly message: string;
+  readonly code?: string;
+  readonly tags?: unknown;
+}
+
+/** Per-call options, accepted by all client methods. */
+export interface CallOptions {
+  /** Signal which can be used to abort the call. */
+  readonly signal?: AbortSignal;
+
+  /**
+   * Maximum number of milliseconds the call may take, including any
+   * streaming of its response or polling.
+   */
+  readonly timeoutMillis?: number;
+}
+
+/**
+ * Abort signal tied to an optional parent signal and timeout. Aborting the
+ * parent or reaching the timeout will abort this signal.
+ */
+export interface Abortable {
+  readonly signal: AbortSignal;
+
+  /**
+   * Returns the typed error matching the signal's abort reason. This method
+   * should only be called once the signal was aborted.
+   */
+  abortError(): Error;
+
+  /** Releases the timeout, if any. The parent signal stays linked. */
+  clearTimeout(): void;
+
+  /** Releases the timeout and parent listener, if any. */
+  dispose(): void;
+}
+
+export function abortable(opts: CallOptions): Abortable {
+  const {signal: parent, timeoutMillis} = opts;
+  const ac = new AbortController();
+  let timedOut = false;
+
+  const onAbort = (): void => {
+    ac.abort(parent?.reason);
+  };
+  if (parent?.aborted) {
+    onAbort();
+  } else {
+    parent?.addEventListener('abort', onAbort, {once: true});
+  }
+  const timer =
+    timeoutMillis == null
+      ? undefined
+      : setTimeout(() => {
+          timedOut = true;
+          ac.abort();
+        }, timeoutMillis);
+
+  return {
+    signal: ac.signal,
+    abortError: () =>
+      timedOut
+        ? clientErrors.callTimedOut(timeoutMillis!)
+        : clientErrors.callAborted(ac.signal.reason),
+    clearTimeout: () => {
+      clearTimeout(timer);
+    },
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
 function traceDetails(trace?: string | null): string {
   return trace ? ` (trace '${trace}')` : '';
 }
 
+/** Returns true if the error is a system error with the given code. */
+export function isSystemError(
+  err: unknown,
+  code: string
+): err is NodeJS.ErrnoException {
+  return err instanceof Error && (err as NodeJS.ErrnoException).code === code;
+}
+
 const ENCODING_HEADER = 'content-encoding';
 
-const BROTLI_QUALITY = 4;
+/** Request body compression options. */
+export interface CompressionOptions {
+  /**
+   * Minimum serialized length (in characters) above which request bodies are
+   * compressed. Defaults to 65_536. Set to `Infinity` to disable compression.
+   */
+  readonly threshold?: number;
+
+  /** Brotli quality level, between 0 and 11. Defaults to 4. */
+  readonly quality?: number;
+}
 
-const COMPRESSION_THRESHOLD = 2 ** 16; // 64 kiB
+const DEFAULT_BROTLI_QUALITY = 4;
 
-export function jsonBrotliEncoder(log: Logger): Encoder<unknown, typeof fetch> {
+const DEFAULT_COMPRESSION_THRESHOLD = 2 ** 16; // 64 kiB
+
+/**
+ * Returns an encoder which serializes bodies incrementally, compressing them
+ * once their length exceeds the threshold. Large bodies are never materialized
+ * as a single string, they are streamed into the compressor instead.
+ */
+export function jsonBrotliEncoder(
+  log: Logger,
+  opts?: CompressionOptions
+): Encoder<unknown, typeof fetch> {
+  const threshold = opts?.threshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+  const quality = opts?.quality ?? DEFAULT_BROTLI_QUALITY;
   return (body, ctx) => {
-    const str = JSON.stringify(body);
-    const len = str.length;
-    if (len <= COMPRESSION_THRESHOLD) {
-      return str;
+    const chunks = jsonChunks(body);
+    let head = '';
+    while (head.length <= threshold) {
+      const {done, value} = chunks.next();
+      if (done) {
+        return head;
+      }
+      head += value;
     }
     ctx.headers[ENCODING_HEADER] = 'br';
     const compressed = zlib.createBrotliCompress({
       params: {
         [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
-        [zlib.constants.BROTLI_PARAM_QUALITY]: BROTLI_QUALITY,
+        [zlib.constants.BROTLI_PARAM_QUALITY]: quality,
       },
     });
-    process.nextTick(() => {
-      compressed.end(str);
+    const source = stream.Readable.from(
+      (function* () {
+        yield head;
+        yield* chunks;
+      })()
+    );
+    stream.pipeline(source, compressed, (err) => {
+      if (err) {
+        // Fail the request rather than sending a truncated body.
+        log.debug({err}, 'Request body compression failed.');
+        compressed.destroy(err);
+      }
     });
-    log.debug('Compressing request body... [uncompressed_size=%s]', len);
+    log.debug('Compressing request body... [threshold=%s]', threshold);
     return compressed;
   };
 }
@@ -153,6 +351,72 @@ export interface Paginated<V> {
   readonly nodes: ReadonlyArray<V>;
 }
 
+/** Cursor-based pagination variables. */
+export interface PageVariables {
+  readonly first?: number;
+  readonly after?: string;
+  readonly last?: number;
+  readonly before?: string;
+}
+
+/**
+ * Options used when iterating over all nodes of a paginated endpoint. The
+ * signal and timeout apply to each page's request.
+ */
+export interface IterationOptions extends CallOptions {
+  /** Maximum number of nodes to yield. By default all nodes are yielded. */
+  readonly limit?: number;
+
+  /** Number of nodes fetched per request. Defaults to 25. */
+  readonly pageSize?: number;
+
+  /**
+   * Traversal direction. Forward iteration starts from the first node while
+   * backward iteration starts from the last one (typically the most recent).
+   * Defaults to forward.
+   */
+  readonly direction?: 'forward' | 'backward';
+}
+
+const DEFAULT_PAGE_SIZE = 25;
+
+/** Yields all nodes across pages, following cursors in the given direction. */
+export async function* iterateNodes<V>(
+  fetchPage: (vars: PageVariables) => Promise<Paginated<V>>,
+  opts?: IterationOptions
+): AsyncIterableIterator<V> {
+  const limit = opts?.limit ?? Infinity;
+  const pageSize = opts?.pageSize ?? DEFAULT_PAGE_SIZE;
+  const backward = opts?.direction === 'backward';
+  let count = 0;
+  let cursor: string | undefined;
+  while (count < limit) {
+    const size = Math.min(pageSize, limit - count);
+    const page = await fetchPage(
+      backward ? {last: size, before: cursor} : {first: size, after: cursor}
+    );
+    const nodes = backward ? [...page.nodes].reverse() : page.nodes;
+    for (const node of nodes) {
+      if (count >= limit) {
+        return;
+      }
+      count++;
+      yield node;
+    }
+    const {info} = page;
+    cursor = backward
+      ? info.hasPreviousPage
+        ? info.startCursor ?? undefined
+        : undefined
+      : info.hasNextPage
+        ? info.endCursor ?? undefined
+        : undefined;
+    if (!cursor || !nodes.length) {
+      return;
+    }
+  }
+}
+
 export interface QueuedSolveListeners {
   /**
    * The solve is still pending, with current status as reported in the
@@ -168,10 +432,68 @@ export interface QueuedSolveListeners {
 
   /** The solve failed */
   failure(data: Schema<'Failure'>): void;
+
+  /**
+   * All notifications up to the argument cursor have been emitted. Persisting
+   * this cursor allows resuming tracking later (via the `cursor` option)
+   * without emitting any notification twice.
+   */
+  checkpoint(cursor: string): void;
 }
 
 /**
  * Type-safe event-emitter used for tracking attempt progress. See the
  * associated listeners for more information.
  */
-export type QueuedSolveTracker = EventConsumer<QueuedSolveListeners>;
+export interface QueuedSolveTracker
+  extends EventConsumer<QueuedSolveListeners> {
+  /** Stops polling. No further events will be emitted. */
+  stop(): void;
+}
+
+/** Options used when solving a problem inline via a promise. */
+export interface SolveCallOptions extends CallOptions {
+  /** Invoked when the problem has been reified. */
+  readonly onReified?: (summary: Schema<'ProblemSummary'>) => void;
+
+  /** Invoked each time progress is reported by the solver. */
+  readonly onProgress?: (progress: Schema<'SolveProgress'>) => void;
+
+  /**
+   * Rejects infeasible and unbounded outcomes with the corresponding typed
+   * error (`infeasibleProblem` and `unboundedProblem`). By default these
+   * outcomes are resolved like any other.
+   */
+  readonly rejectUnsolvable?: boolean;
+
+  /**
+   * Set to false to bypass the client's solve cache, if any. The outcome is
+   * still stored in the cache.
+   */
+  readonly cache?: boolean;
+}
+
+/** Outcome and outputs of a solved problem. */
+export interface SolvedProblem {
+  readonly outcome: Schema<'SolveOutcome'>;
+  /** Outputs, only present for feasible outcomes. */
+  readonly outputs?: Schema<'SolveOutputs'>;
+  /** Whether the outcome was returned from the client's solve cache. */
+  readonly cached?: boolean;
+}
+
+/** Options used when tracking a queued solve. */
+export interface TrackSolveOptions extends CallOptions {
+  /** Delay before the first poll, and initial backoff delay. Defaults to 100. */
+  readonly initialIntervalMillis?: number;
+
+  /** Maximum delay between two polls. Defaults to 10_000. */
+  readonly maxIntervalMillis?: number;
+
+  /**
+   * Cursor from a previous tracker's `checkpoint` event. Only notifications
+   * emitted after it will be emitted. By default all notifications are
+   * emitted.
+   */
+  readonly cursor?: string;
+}
@@ -0,0 +1,312 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as otel from '@opentelemetry/api';
+import {Logger} from '@opvious/stl-telemetry';
+import {AsyncLocalStorage} from 'async_hooks';
+import http from 'http';
+import fetch, {
+  AbortError,
+  FetchError,
+  Headers,
+  RequestInit,
+  Response,
+} from 'node-fetch';
+import {setTimeout} from 'timers/promises';
+
+import {CassetteOptions, cassetteFetch} from './cassette.js';
+import {abortable, clientErrors} from './common.js';
+
+/** Context shared by all requests issued within a single client call. */
+export interface ActiveCall {
+  /** Signal applied to all the call's requests. */
+  readonly signal?: AbortSignal;
+
+  /**
+   * Whether the call's requests can safely be sent more than once. Defaults to
+   * true.
+   */
+  readonly idempotent?: boolean;
+}
+
+export const activeCall = new AsyncLocalStorage<ActiveCall>();
+
+/** Policy used to retry failed API requests. */
+export interface RetryPolicy {
+  /**
+   * Maximum number of times a request will be sent, including the first time.
+   * Set this to 1 to disable retries. Defaults to 3.
+   */
+  readonly maxAttempts?: number;
+
+  /**
+   * Base delay used to compute exponential backoff delays (with full jitter)
+   * between attempts. Defaults to 250.
+   */
+  readonly initialDelayMillis?: number;
+
+  /** Upper bound on the delay between two attempts. Defaults to 5_000. */
+  readonly maxDelayMillis?: number;
+
+  /**
+   * Response statuses which will trigger a retry. Defaults to 429, 502, 503,
+   * and 504. When present, throttled responses' `retry-after` header takes
+   * precedence over the exponential backoff delay.
+   */
+  readonly retryableStatuses?: ReadonlyArray<number>;
+
+  /**
+   * Fetch error codes which will trigger a retry. Defaults to common transient
+   * network errors (`ECONNRESET`, `ECONNREFUSED`, etc.).
+   */
+  readonly retryableErrorCodes?: ReadonlyArray<string>;
+
+  /**
+   * Whether to also retry server errors and network failures from
+   * non-idempotent operations, for example `queueSolve`. Defaults to false.
+   * Throttled (429) responses are always retried since the server did not
+   * process the request.
+   */
+  readonly retryNonIdempotent?: boolean;
+}
+
+/** API request, as seen by middleware. */
+export interface MiddlewareRequest {
+  readonly url: URL;
+  readonly method: string;
+  /** Request headers, which may be mutated in place. */
+  readonly headers: Headers;
+  readonly body?: RequestInit['body'];
+  /** Attempt number, starting at 1 and incremented on each retry. */
+  readonly attempt: number;
+}
+
+/** Sends a request to the next middleware, or to the API. */
+export type MiddlewareNext = (req: MiddlewareRequest) => Promise<Response>;
+
+/**
+ * Hook invoked on every API request attempt, including from GraphQL
+ * operations. Middleware can inspect and mutate outgoing requests (or pass a
+ * different one to `next`) and inspect or replace the response it returns.
+ * Errors thrown by middleware are propagated to the caller unchanged.
+ */
+export type Middleware = (
+  req: MiddlewareRequest,
+  next: MiddlewareNext
+) => Promise<Response>;
+
+const THROTTLED_STATUS = 429;
+
+const DEFAULT_RETRYABLE_STATUSES = [THROTTLED_STATUS, 502, 503, 504];
+
+const DEFAULT_RETRYABLE_ERROR_CODES = [
+  'EAI_AGAIN',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EPIPE',
+  'ETIMEDOUT',
+];
+
+/**
+ * Returns a fetch implementation which handles retries, timeouts, and aborts
+ * for requests issued by the client's SDKs.
+ */
+export function apiFetch(args: {
+  readonly logger: Logger;
+  readonly agent?: http.Agent;
+  readonly cassette?: CassetteOptions;
+  readonly middleware?: ReadonlyArray<Middleware>;
+  readonly maxRetryDelayMillis?: number;
+  readonly requestTimeoutMillis?: number;
+  readonly retryPolicy?: RetryPolicy;
+}): typeof fetch {
+  const {logger, requestTimeoutMillis, retryPolicy: policy} = args;
+  const maxAttempts = policy?.maxAttempts ?? 3;
+  const initialDelay = policy?.initialDelayMillis ?? 250;
+  const maxDelay = policy?.maxDelayMillis ?? 5_000;
+  const statuses = new Set(
+    policy?.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES
+  );
+  const codes = new Set(
+    policy?.retryableErrorCodes ?? DEFAULT_RETRYABLE_ERROR_CODES
+  );
+
+  const send = chained(
+    args.middleware ?? [],
+    args.cassette ? cassetteFetch(args.cassette, logger) : fetch
+  );
+
+  function backoffDelay(attempt: number): number {
+    const ceiling = Math.min(maxDelay, initialDelay * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+
+  return async (url, init): Promise<Response> => {
+    const reqHeaders = new Headers(init?.headers);
+    otel.propagation.inject(otel.context.active(), reqHeaders, headerSetter);
+    logger.debug({data: {req: init}}, 'Sending API request...');
+
+    const call = activeCall.getStore();
+    const body = init?.body;
+    const replayable =
+      body == null || typeof body == 'string' || Buffer.isBuffer(body);
+    const attempts = replayable ? maxAttempts : 1;
+    const idempotent =
+      call?.idempotent !== false || !!policy?.retryNonIdempotent;
+    const retryCutoff = Date.now() + (args.maxRetryDelayMillis ?? 2_500);
+
+    for (let attempt = 1; ; attempt++) {
+      // The request timeout only applies until the response's headers are
+      // received, the parent signal stays linked until its body is closed.
+      const ab = abortable({
+        signal: call?.signal,
+        timeoutMillis: requestTimeoutMillis,
+      });
+      let res;
+      try {
+        // The attempt's signal is also made available to the agent, so that
+        // it can abort pending proxy tunnels.
+        res = await activeCall.run({...call, signal: ab.signal}, () =>
+          send(
+            {
+              url: new URL('' + url),
+              method: init?.method ?? 'GET',
+              headers: new Headers(reqHeaders),
+              body,
+              attempt,
+            },
+            {...init, agent: args.agent, signal: ab.signal}
+          )
+        );
+      } catch (err) {
+        ab.dispose();
+        if (err instanceof AbortError) {
+          throw ab.abortError();
+        }
+        if (!(err instanceof FetchError)) {
+          throw err;
+        }
+        if (
+          attempt >= attempts ||
+          !idempotent ||
+          !err.code ||
+          !codes.has(err.code)
+        ) {
+          throw clientErrors.fetchFailed(err);
+        }
+        const ms = backoffDelay(attempt);
+        logger.info(
+          {err},
+          'Retrying failed API request in %sms... [attempt=%s, code=%s]',
+          ms,
+          attempt,
+          err.code
+        );
+        await sleep(ms, call?.signal);
+        continue;
+      }
+
+      const headers = Object.fromEntries(res.headers);
+      logger.debug(
+        {data: {res: {status: res.status, headers}}},
+        'Received API response.'
+      );
+      let ms: number | undefined;
+      if (
+        attempt < attempts &&
+        statuses.has(res.status) &&
+        (idempotent || res.status === THROTTLED_STATUS)
+      ) {
+        const retryAfter = retryAfterTime(res);
+        if (retryAfter == null) {
+          ms = backoffDelay(attempt);
+        } else if (retryAfter <= retryCutoff) {
+          ms = Math.max(0, retryAfter - Date.now());
+        }
+      }
+      if (ms == null) {
+        ab.clearTimeout();
+        if (res.body) {
+          res.body.once('close', () => void ab.dispose());
+        } else {
+          ab.dispose();
+        }
+        return res;
+      }
+      ab.dispose();
+      res.body?.resume(); // Discard the body to release the connection.
+      logger.info(
+        'Retrying API request in %sms... [attempt=%s, status=%s]',
+        ms,
+        attempt,
+        res.status
+      );
+      await sleep(ms, call?.signal);
+    }
+  };
+}
+
+const headerSetter: otel.TextMapSetter<Headers> = {
+  set: (headers, key, value) => void headers.set(key, value),
+};
+
+/** Wraps a fetch implementation with middleware, applied in order. */
+function chained(
+  middleware: ReadonlyArray<Middleware>,
+  fn: typeof fetch
+): (req: MiddlewareRequest, init: RequestInit) => Promise<Response> {
+  return (req, init) => {
+    const dispatch = (
+      ix: number,
+      req: MiddlewareRequest
+    ): Promise<Response> => {
+      const mw = middleware[ix];
+      if (!mw) {
+        return fn('' + req.url, {
+          ...init,
+          method: req.method,
+          headers: req.headers,
+          body: req.body,
+        });
+      }
+      return mw(req, (r) => dispatch(ix + 1, r));
+    };
+    return dispatch(0, req);
+  };
+}
+
+function retryAfterTime(res: Response): number | undefined {
+  const header = res.headers.get('retry-after');
+  if (!header) {
+    return undefined;
+  }
+  // The header's value is either a number of seconds or an HTTP date.
+  const secs = +header;
+  const time = isNaN(secs) ? +new Date(header) : Date.now() + secs * 1000;
+  return isNaN(time) ? undefined : time + 100;
+}
+
+async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  const ab = abortable({signal});
+  try {
+    await setTimeout(ms, undefined, {signal: ab.signal});
+  } catch (_err) {
+    throw ab.abortError();
+  } finally {
+    ab.dispose();
+  }
+}
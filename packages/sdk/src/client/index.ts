@@ -15,35 +15,77 @@
  * the License.
  */
 
-import * as otel from '@opentelemetry/api';
 import * as api from '@opvious/api';
-import {assert, assertCause} from '@opvious/stl-errors';
+import {assert} from '@opvious/stl-errors';
 import {noopTelemetry, Telemetry} from '@opvious/stl-telemetry';
-import {withEmitter, withTypedEmitter} from '@opvious/stl-utils/events';
+import {
+  waitForEvent,
+  withEmitter,
+  withTypedEmitter,
+} from '@opvious/stl-utils/events';
 import {ifPresent} from '@opvious/stl-utils/functions';
 import {MarkPresent} from '@opvious/stl-utils/objects';
 import backoff from 'backoff';
 import jsonSeq from 'json-text-sequence';
-import fetch, {FetchError, Response} from 'node-fetch';
+import fetch from 'node-fetch';
 import stream from 'stream';
 import {pipeline as streamPipeline} from 'stream/promises';
-import {setTimeout} from 'timers/promises';
 
 import {packageInfo, strippingTrailingSlashes} from '../common.js';
+import {formatLinearModel, ModelFormat, parseLinearModel} from '../models.js';
 import {SolveTracker, SolveTrackerListeners} from '../solves.js';
+import {AgentOptions, apiAgent} from './agent.js';
+import {SolveCache, SolveCacheOptions, solveCacheKey} from './cache.js';
+import {CassetteOptions} from './cassette.js';
 import {
+  abortable,
   assertHasCode,
+  CallOptions,
   clientErrors,
+  CompressionOptions,
+  IterationOptions,
+  iterateNodes,
   jsonBrotliEncoder,
   okData,
   okResultData,
   Paginated,
   QueuedSolveListeners,
   QueuedSolveTracker,
+  SolveCallOptions,
+  SolvedProblem,
+  TrackSolveOptions,
   Uuid,
 } from './common.js';
+import {activeCall, apiFetch, Middleware, RetryPolicy} from './fetch.js';
 
-export {Paginated, QueuedSolveListeners, QueuedSolveTracker} from './common.js';
+export {
+  CallOptions,
+  CompressionOptions,
+  IterationOptions,
+  Paginated,
+  QueuedSolveListeners,
+  QueuedSolveTracker,
+  SolveCallOptions,
+  SolvedProblem,
+  SolveErrorDetails,
+  TrackSolveOptions,
+} from './common.js';
+export {AgentOptions} from './agent.js';
+export {
+  fileSolveCacheStorage,
+  memorySolveCacheStorage,
+  SolveCacheEntry,
+  SolveCacheOptions,
+  SolveCacheStorage,
+  solveCacheKey,
+} from './cache.js';
+export {CassetteInteraction, CassetteOptions} from './cassette.js';
+export {
+  Middleware,
+  MiddlewareNext,
+  MiddlewareRequest,
+  RetryPolicy,
+} from './fetch.js';
 
 /** Opvious API client. */
 export class OpviousClient {
@@ -54,7 +96,9 @@ export class OpviousClient {
     /** Base API endpoint. */
     readonly apiEndpoint: string,
     private readonly sdk: api.Sdk<typeof fetch>,
-    private readonly graphqlSdk: api.GraphqlSdk<typeof fetch>
+    private readonly graphqlSdk: api.GraphqlSdk<typeof fetch>,
+    private readonly solveCache: SolveCache | undefined,
+    private readonly externalFetch: typeof fetch
   ) {}
 
   /** Creates a new client. */
@@ -83,145 +127,287 @@ export class OpviousClient {
       (opts?.endpoint ?? process.env.OPVIOUS_ENDPOINT) || DEFAULT_ENDPOINT
     );
 
-    const retryCutoff = Date.now() + (opts?.maxRetryDelayMillis ?? 2_500);
     const sdk = api.createSdk<typeof fetch>({
       address,
       headers,
-      fetch: async (url, init): Promise<Response> => {
-        otel.propagation.inject(otel.context.active(), init.headers);
-        logger.debug({data: {req: init}}, 'Sending API request...');
-
-        let res;
-        do {
-          try {
-            res = await fetch(url, init);
-          } catch (err) {
-            assertCause(err instanceof FetchError, err);
-            throw clientErrors.fetchFailed(err);
-          }
-          const headers = Object.fromEntries(res.headers);
-          logger.debug(
-            {data: {res: {status: res.status, headers}}},
-            'Received API response.'
-          );
-          const retryAfter = ifPresent(
-            res.headers.get('retry-after') || undefined,
-            (d) => +new Date(d) + 100
-          );
-          if (res.status !== 429 || !retryAfter || retryAfter > retryCutoff) {
-            break;
-          }
-          const ms = retryAfter - Date.now();
-          logger.info('Retrying throttled API request in %sms...', ms);
-          await setTimeout(ms);
-        } while (true); // eslint-disable-line no-constant-condition
-
-        return res;
-      },
+      fetch: apiFetch({
+        logger,
+        agent: apiAgent(address, opts?.agent, logger),
+        cassette: opts?.cassette,
+        middleware: opts?.middleware,
+        maxRetryDelayMillis: opts?.maxRetryDelayMillis,
+        requestTimeoutMillis: opts?.requestTimeoutMillis,
+        retryPolicy: opts?.retryPolicy,
+      }),
       decoders: {
         'application/json-seq': (res) => {
           const parser = new jsonSeq.Parser();
-          res.body!.pipe(parser);
+          // Pipeline (vs. pipe) to forward body errors, for example aborts.
+          stream.pipeline(res.body!, parser, () => {});
           return parser;
         },
       },
       encoders: {
-        'application/json': jsonBrotliEncoder(logger),
+        'application/json': jsonBrotliEncoder(logger, opts?.compression),
       },
     });
     const graphqlSdk = api.createGraphqlSdk(sdk);
 
+    // Non-API requests use their own agent since proxy settings depend on the
+    // target. Connections are not reused, these requests are infrequent.
+    const externalFetch: typeof fetch = (url, init) =>
+      apiFetch({
+        logger,
+        agent: apiAgent('' + url, {...opts?.agent, keepAlive: false}, logger),
+        maxRetryDelayMillis: opts?.maxRetryDelayMillis,
+        requestTimeoutMillis: opts?.requestTimeoutMillis,
+        retryPolicy: opts?.retryPolicy,
+      })(url, init);
+
     logger.debug('Created new client.');
-    return new OpviousClient(tel, !!auth, address, sdk, graphqlSdk);
+    const cache = ifPresent(opts?.solveCache, (o) => new SolveCache(o, logger));
+    return new OpviousClient(
+      tel,
+      !!auth,
+      address,
+      sdk,
+      graphqlSdk,
+      cache,
+      externalFetch
+    );
   }
 
   // Solving
 
+  /**
+   * Runs the function such that all requests issued within it are bound to the
+   * call options' signal and timeout. Errors thrown after the call was aborted
+   * are mapped to the corresponding typed client error. Requests from
+   * non-idempotent calls are only retried if the retry policy allows it.
+   */
+  private async withCallOptions<V>(
+    opts: CallOptions | undefined,
+    fn: () => Promise<V>,
+    idempotent = true
+  ): Promise<V> {
+    if (!opts?.signal && opts?.timeoutMillis == null) {
+      return idempotent ? fn() : activeCall.run({idempotent}, fn);
+    }
+    const ab = abortable(opts);
+    try {
+      return await activeCall.run({signal: ab.signal, idempotent}, fn);
+    } catch (err) {
+      throw ab.signal.aborted ? ab.abortError() : err;
+    } finally {
+      ab.dispose();
+    }
+  }
+
   /** Solves an optimization model. */
-  runSolve(args: {readonly problem: api.Schema<'Problem'>}): SolveTracker {
+  runSolve(
+    args: {readonly problem: api.Schema<'Problem'>},
+    opts?: CallOptions
+  ): SolveTracker {
     const {problem} = args;
-    return withTypedEmitter<SolveTrackerListeners>(async (ee) => {
-      const res = await this.sdk.solve({
-        body: {problem},
-        headers: {accept: 'application/json-seq, text/*'},
-      });
-      const iter = okData(res);
-      for await (const data of iter) {
-        switch (data.kind) {
-          case 'error':
-            ee.emit('error', new Error(data.error.message));
-            break;
-          case 'reified':
-            ee.emit('reified', data.summary);
-            break;
-          case 'solving':
-            ee.emit('solving', data.progress);
-            break;
-          case 'solved':
-            ee.emit('solved', data.outcome, data.outputs);
-            break;
+    return withTypedEmitter<SolveTrackerListeners>((ee) =>
+      this.withCallOptions(opts, async () => {
+        const res = await this.sdk.solve({
+          body: {problem},
+          headers: {accept: 'application/json-seq, text/*'},
+        });
+        const iter = okData(res);
+        for await (const data of iter) {
+          switch (data.kind) {
+            case 'error':
+              ee.emit('error', clientErrors.solveErrored(res.raw, data.error));
+              break;
+            case 'reified':
+              ee.emit('reified', data.summary);
+              break;
+            case 'solving':
+              ee.emit('solving', data.progress);
+              break;
+            case 'solved':
+              ee.emit('solved', data.outcome, data.outputs);
+              break;
+          }
         }
+      })
+    );
+  }
+
+  /**
+   * Solves an optimization model, returning a promise which resolves with its
+   * outcome once it is solved. Errors reported by the API while solving are
+   * surfaced as typed client errors. If the client has a solve cache, outcomes
+   * of identical problems are returned from it without solving them again.
+   */
+  async solve(
+    problem: api.Schema<'Problem'>,
+    opts?: SolveCallOptions
+  ): Promise<SolvedProblem> {
+    const {solveCache} = this;
+    const key = solveCache ? solveCacheKey(problem) : undefined;
+    let solved =
+      solveCache && key && opts?.cache !== false
+        ? await solveCache.lookup(key)
+        : undefined;
+    if (!solved) {
+      const tracker = this.runSolve({problem}, opts);
+      if (opts?.onReified) {
+        tracker.on('reified', opts.onReified);
       }
-    });
+      if (opts?.onProgress) {
+        tracker.on('solving', opts.onProgress);
+      }
+      const [outcome, outputs] = await waitForEvent(tracker, 'solved');
+      solved = {outcome, outputs};
+      if (solveCache && key) {
+        await solveCache.store(key, solved);
+      }
+    }
+    const {outcome} = solved;
+    if (opts?.rejectUnsolvable) {
+      switch (outcome.status) {
+        case 'INFEASIBLE':
+          throw clientErrors.infeasibleProblem(outcome);
+        case 'UNBOUNDED':
+          throw clientErrors.unboundedProblem(outcome);
+      }
+    }
+    return solved;
   }
 
-  /** Returns an optimization model's underlying instructions. */
-  formatProblem(args: {
-    readonly problem: api.Schema<'Problem'>;
-  }): stream.Readable {
-    const {problem} = args;
-    return withEmitter(new stream.PassThrough(), async (pt) => {
-      const res = await this.sdk.formatProblem({
-        body: {problem},
-        headers: {accept: 'text/plain'},
-        decoder: (res) => {
-          if (res.status !== 200) {
-            return res.text();
-          }
-          return ''; // Do not consume the body.
-        },
-      });
-      assertHasCode(res, 200);
-      assert(res.raw.body, 'Missing body');
-      await streamPipeline(res.raw.body, pt);
-    });
+  /**
+   * Reifies a problem, returning its summary. This is useful to check instance
+   * counts before launching expensive solves, see also `summaryWarnings`.
+   *
+   * The API does not expose reification separately, so this starts an inline
+   * solve with a zero time limit and aborts it as soon as the summary is
+   * received.
+   */
+  async inspectProblem(
+    problem: api.Schema<'Problem'>,
+    opts?: CallOptions
+  ): Promise<api.Schema<'ProblemSummary'>> {
+    const ac = new AbortController();
+    const onAbort = (): void => void ac.abort(opts?.signal?.reason);
+    if (opts?.signal?.aborted) {
+      onAbort();
+    } else {
+      opts?.signal?.addEventListener('abort', onAbort, {once: true});
+    }
+    const tracker = this.runSolve(
+      {problem: {...problem, options: {...problem.options, timeoutMillis: 0}}},
+      {signal: ac.signal, timeoutMillis: opts?.timeoutMillis}
+    );
+    try {
+      const [summary] = await waitForEvent(tracker, 'reified');
+      return summary;
+    } finally {
+      opts?.signal?.removeEventListener('abort', onAbort);
+      // Only the summary is needed, stop the solve and ignore the resulting
+      // abort error.
+      tracker.on('error', () => {});
+      ac.abort();
+    }
+  }
+
+  /**
+   * Returns an optimization model's underlying instructions, in LP format by
+   * default. Other formats are converted locally from the LP representation,
+   * which requires buffering it fully in memory. Only LP output is streamed.
+   */
+  formatProblem(
+    args: {
+      readonly problem: api.Schema<'Problem'>;
+      readonly format?: ModelFormat;
+    },
+    opts?: CallOptions
+  ): stream.Readable {
+    const {problem, format = 'lp'} = args;
+    return withEmitter(new stream.PassThrough(), (pt) =>
+      this.withCallOptions(opts, async () => {
+        const res = await this.sdk.formatProblem({
+          body: {problem},
+          headers: {accept: 'text/plain'},
+          decoder: (res) => {
+            if (res.status !== 200) {
+              return res.text();
+            }
+            return ''; // Do not consume the body.
+          },
+        });
+        assertHasCode(res, 200);
+        assert(res.raw.body, 'Missing body');
+        if (format === 'lp') {
+          await streamPipeline(res.raw.body, pt);
+          return;
+        }
+        const chunks: Buffer[] = [];
+        for await (const chunk of res.raw.body) {
+          chunks.push(Buffer.from(chunk));
+        }
+        const model = parseLinearModel(Buffer.concat(chunks).toString(), 'lp');
+        pt.end(formatLinearModel(model, format));
+      })
+    );
   }
 
   // Account management
 
   /** Fetches the currently active member. */
-  async fetchMember(): Promise<api.graphqlTypes.FetchedMemberFragment> {
-    const res = await this.graphqlSdk.FetchMember();
+  async fetchMember(
+    opts?: CallOptions
+  ): Promise<api.graphqlTypes.FetchedMemberFragment> {
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.FetchMember()
+    );
     return okResultData(res).me;
   }
 
   /** Lists all available authorizations. */
-  async listAuthorizations(): Promise<
-    ReadonlyArray<api.graphqlTypes.ListedAuthorizationFragment>
-  > {
-    const res = await this.graphqlSdk.ListAuthorizations();
+  async listAuthorizations(
+    opts?: CallOptions
+  ): Promise<ReadonlyArray<api.graphqlTypes.ListedAuthorizationFragment>> {
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.ListAuthorizations()
+    );
     return okResultData(res).me.authorizations;
   }
 
   /** Creates a new access token for an authorization with the given name. */
   async generateAccessToken(
-    input: api.graphqlTypes.GenerateAuthorizationInput
+    input: api.graphqlTypes.GenerateAuthorizationInput,
+    opts?: CallOptions
   ): Promise<string> {
-    const res = await this.graphqlSdk.GenerateAuthorization({input});
+    const res = await this.withCallOptions(
+      opts,
+      () => this.graphqlSdk.GenerateAuthorization({input}),
+      false
+    );
     return okResultData(res).generateAuthorization.token;
   }
 
   /** Revokes an authorization from its name, returning true if one existed. */
-  async revokeAuthorization(name: string): Promise<boolean> {
-    const res = await this.graphqlSdk.RevokeAuthorization({name});
+  async revokeAuthorization(
+    name: string,
+    opts?: CallOptions
+  ): Promise<boolean> {
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.RevokeAuthorization({name})
+    );
     return okResultData(res).revokeAuthorization;
   }
 
   /** Paginates credit charges. */
   async paginateCreditCharges(
-    vars: api.graphqlTypes.PaginateCreditChargesQueryVariables
+    vars: api.graphqlTypes.PaginateCreditChargesQueryVariables,
+    opts?: CallOptions
   ): Promise<Paginated<api.graphqlTypes.FullCreditChargeFragment>> {
-    const res = await this.graphqlSdk.PaginateCreditCharges(vars);
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.PaginateCreditCharges(vars)
+    );
     const charges = okResultData(res).me.creditCharges;
     return {
       info: charges.pageInfo,
@@ -232,9 +418,12 @@ export class OpviousClient {
 
   /** Paginates credit grants. */
   async paginateCreditGrants(
-    vars: api.graphqlTypes.PaginateCreditGrantsQueryVariables
+    vars: api.graphqlTypes.PaginateCreditGrantsQueryVariables,
+    opts?: CallOptions
   ): Promise<Paginated<api.graphqlTypes.FullCreditGrantFragment>> {
-    const res = await this.graphqlSdk.PaginateCreditGrants(vars);
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.PaginateCreditGrants(vars)
+    );
     const grants = okResultData(res).me.creditGrants;
     return {
       info: grants.pageInfo,
@@ -243,46 +432,73 @@ export class OpviousClient {
     };
   }
 
+  /** Iterates over credit charges. */
+  iterateCreditCharges(
+    opts?: IterationOptions
+  ): AsyncIterableIterator<api.graphqlTypes.FullCreditChargeFragment> {
+    return iterateNodes((vars) => this.paginateCreditCharges(vars, opts), opts);
+  }
+
+  /** Iterates over credit grants. */
+  iterateCreditGrants(
+    opts?: IterationOptions
+  ): AsyncIterableIterator<api.graphqlTypes.FullCreditGrantFragment> {
+    return iterateNodes((vars) => this.paginateCreditGrants(vars, opts), opts);
+  }
+
   // Formulations
 
   /** Parses and validates a formulation's sources. */
-  async parseSources(args: {
-    readonly sources: ReadonlyArray<string>;
-    readonly includeOutline?: boolean;
-  }): Promise<api.ResponseData<'parseSources', 200>> {
-    const res = await this.sdk.parseSources({
-      body: {sources: args.sources, outline: !!args.includeOutline},
-    });
+  async parseSources(
+    args: {
+      readonly sources: ReadonlyArray<string>;
+      readonly includeOutline?: boolean;
+    },
+    opts?: CallOptions
+  ): Promise<api.ResponseData<'parseSources', 200>> {
+    const res = await this.withCallOptions(opts, () =>
+      this.sdk.parseSources({
+        body: {sources: args.sources, outline: !!args.includeOutline},
+      })
+    );
     return okData(res);
   }
 
   /** Adds a new specification. */
   async registerSpecification(
-    input: api.graphqlTypes.RegisterSpecificationInput
+    input: api.graphqlTypes.RegisterSpecificationInput,
+    opts?: CallOptions
   ): Promise<api.graphqlTypes.RegisteredSpecificationFragment> {
-    const res = await this.graphqlSdk.RegisterSpecification({input});
+    const res = await this.withCallOptions(
+      opts,
+      () => this.graphqlSdk.RegisterSpecification({input}),
+      false
+    );
     return okResultData(res).registerSpecification;
   }
 
   /** Updates a formulation's metadata. */
   async updateFormulation(
-    input: api.graphqlTypes.UpdateFormulationInput
+    input: api.graphqlTypes.UpdateFormulationInput,
+    opts?: CallOptions
   ): Promise<api.graphqlTypes.UpdatedFormulationFragment> {
-    const res = await this.graphqlSdk.UpdateFormulation({input});
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.UpdateFormulation({input})
+    );
     return okResultData(res).updateFormulation;
   }
 
   /** Fetches a formulation's outline. */
   async fetchFormulationOutline(
     formulationName: string,
-    tagName?: string
+    tagName?: string,
+    opts?: CallOptions
   ): Promise<
     MarkPresent<api.graphqlTypes.FetchedOutlineFormulationFragment, 'tag'>
   > {
-    const res = await this.graphqlSdk.FetchOutline({
-      formulationName,
-      tagName,
-    });
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.FetchOutline({formulationName, tagName})
+    );
     const form = okResultData(res).formulation;
     if (!form?.tag) {
       throw clientErrors.unknownFormulation(formulationName, tagName);
@@ -290,11 +506,61 @@ export class OpviousClient {
     return {...form, tag: form.tag};
   }
 
+  /**
+   * Fetches remote problem data (see `loadProblem`), using the client's
+   * connection options and request timeout. Throws if the response is not
+   * successful.
+   */
+  async fetchProblemData(
+    url: URL,
+    opts?: CallOptions
+  ): Promise<AsyncIterable<Buffer>> {
+    return this.withCallOptions(opts, async () => {
+      const res = await this.externalFetch(url);
+      if (!res.ok) {
+        res.body?.resume();
+        throw clientErrors.problemFetchFailed(url.href, res.status);
+      }
+      return res.body!;
+    });
+  }
+
+  /**
+   * Fetches the outline of a problem's formulation. Registered formulations'
+   * outlines are fetched from their tag, inline sources are parsed.
+   */
+  async fetchProblemOutline(
+    formulation: api.Schema<'Problem'>['formulation'],
+    opts?: CallOptions
+  ): Promise<api.Schema<'Outline'>> {
+    if ('sources' in formulation) {
+      const {errors, outline} = await this.parseSources(
+        {sources: formulation.sources, includeOutline: true},
+        opts
+      );
+      if (!outline) {
+        throw clientErrors.invalidSources(
+          errors.filter((e) => e.isFatal).length
+        );
+      }
+      return outline;
+    }
+    const form = await this.fetchFormulationOutline(
+      formulation.name,
+      formulation.specificationTagName,
+      opts
+    );
+    return form.tag.specification.outline;
+  }
+
   /** Paginates available formulations. */
   async paginateFormulations(
-    vars: api.graphqlTypes.PaginateFormulationsQueryVariables
+    vars: api.graphqlTypes.PaginateFormulationsQueryVariables,
+    opts?: CallOptions
   ): Promise<Paginated<api.graphqlTypes.PaginatedFormulationFragment>> {
-    const res = await this.graphqlSdk.PaginateFormulations(vars);
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.PaginateFormulations(vars)
+    );
     const forms = okResultData(res).formulations;
     return {
       info: forms.pageInfo,
@@ -305,9 +571,12 @@ export class OpviousClient {
 
   /** Paginates available specification tags for a formulation. */
   async paginateFormulationTags(
-    vars: api.graphqlTypes.PaginateFormulationTagsQueryVariables
+    vars: api.graphqlTypes.PaginateFormulationTagsQueryVariables,
+    opts?: CallOptions
   ): Promise<Paginated<api.graphqlTypes.PaginatedFormulationTagFragment>> {
-    const res = await this.graphqlSdk.PaginateFormulationTags(vars);
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.PaginateFormulationTags(vars)
+    );
     const tags = okResultData(res).formulation?.tags;
     if (!tags) {
       throw clientErrors.unknownFormulation(vars.formulationName);
@@ -319,9 +588,33 @@ export class OpviousClient {
     };
   }
 
+  /** Iterates over available formulations. */
+  iterateFormulations(
+    filter?: api.graphqlTypes.PaginateFormulationsQueryVariables['filter'],
+    opts?: IterationOptions
+  ): AsyncIterableIterator<api.graphqlTypes.PaginatedFormulationFragment> {
+    return iterateNodes(
+      (vars) => this.paginateFormulations({...vars, filter}, opts),
+      opts
+    );
+  }
+
+  /** Iterates over available specification tags for a formulation. */
+  iterateFormulationTags(
+    formulationName: string,
+    opts?: IterationOptions
+  ): AsyncIterableIterator<api.graphqlTypes.PaginatedFormulationTagFragment> {
+    return iterateNodes(
+      (vars) => this.paginateFormulationTags({...vars, formulationName}, opts),
+      opts
+    );
+  }
+
   /** Deletes a formulation, returning true if a formulation was deleted. */
-  async deleteFormulation(name: string): Promise<boolean> {
-    const res = await this.graphqlSdk.DeleteFormulation({name});
+  async deleteFormulation(name: string, opts?: CallOptions): Promise<boolean> {
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.DeleteFormulation({name})
+    );
     return okResultData(res).deleteFormulation.specificationCount > 0;
   }
 
@@ -329,9 +622,12 @@ export class OpviousClient {
 
   /** Paginates available attempts. */
   async paginateAttempts(
-    vars: api.graphqlTypes.PaginateAttemptsQueryVariables
+    vars: api.graphqlTypes.PaginateAttemptsQueryVariables,
+    opts?: CallOptions
   ): Promise<Paginated<api.graphqlTypes.PaginatedAttemptFragment>> {
-    const res = await this.graphqlSdk.PaginateAttempts(vars);
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.PaginateAttempts(vars)
+    );
     const forms = okResultData(res).attempts;
     return {
       info: forms.pageInfo,
@@ -340,86 +636,199 @@ export class OpviousClient {
     };
   }
 
+  /** Iterates over available attempts. */
+  iterateAttempts(
+    filter?: api.graphqlTypes.PaginateAttemptsQueryVariables['filter'],
+    opts?: IterationOptions
+  ): AsyncIterableIterator<api.graphqlTypes.PaginatedAttemptFragment> {
+    return iterateNodes(
+      (vars) => this.paginateAttempts({...vars, filter}, opts),
+      opts
+    );
+  }
+
   /**
    * Starts a new attempt. The attempt will run asynchronously; use the returned
    * UUID to wait for its outcome (via `waitForOutcome`), fetch its inputs and
    * outputs, etc.
    */
-  async queueSolve(args: {
-    readonly problem: api.Schema<'Problem'>;
-  }): Promise<api.ResponseData<'queueSolve', 200>> {
+  async queueSolve(
+    args: {readonly problem: api.Schema<'Problem'>},
+    opts?: CallOptions
+  ): Promise<api.ResponseData<'queueSolve', 200>> {
     const {problem} = args;
-    const res = await this.sdk.queueSolve({body: {problem}});
+    const res = await this.withCallOptions(
+      opts,
+      () => this.sdk.queueSolve({body: {problem}}),
+      false
+    );
     return okData(res);
   }
 
   /**
    * Tracks a queued solve until its outcome is decided, emitting it as
-   * `'outcome'`. `'notification'` events will periodically be emitted
-   * containing the attempt's latest progress. If the attempt faile , the event
-   * emitter will emit an error.
+   * `'outcome'`. `'notification'` events will be emitted for each of the
+   * attempt's progress notifications, followed by a `'checkpoint'` event which
+   * can be used to resume tracking later on. If the attempt fails, a
+   * `'failure'` event will be emitted. The call options' timeout bounds the
+   * total tracking time; aborting the call (or reaching its timeout) stops
+   * polling and emits the corresponding error.
    */
-  trackSolve(uuid: Uuid): QueuedSolveTracker {
-    return withTypedEmitter<QueuedSolveListeners>((ee) => {
-      const xb = backoff.exponential();
+  trackSolve(uuid: Uuid, opts?: TrackSolveOptions): QueuedSolveTracker {
+    let stopped = false;
+    let stop = (): void => {
+      stopped = true;
+    };
+    const tracker = withTypedEmitter<QueuedSolveListeners>((ee) => {
+      if (stopped) {
+        return;
+      }
+      const xb = backoff.exponential({
+        initialDelay: opts?.initialIntervalMillis ?? 100,
+        maxDelay: opts?.maxIntervalMillis ?? 10_000,
+      });
+      const ab =
+        opts?.signal || opts?.timeoutMillis != null
+          ? abortable(opts)
+          : undefined;
+      let cursor = opts?.cursor;
+
+      stop = (): void => {
+        stopped = true;
+        xb.reset();
+        ab?.dispose();
+      };
+      ab?.signal.addEventListener('abort', () => {
+        if (!stopped) {
+          stop();
+          ee.emit('error', ab.abortError());
+        }
+      });
+
+      const poll = async (): Promise<void> => {
+        const queuedSolve = await this.pollSolve(uuid);
+        // We always drain notifications before emitting the outcome, to
+        // guarantee that none are skipped.
+        let progressed = false;
+        let hasNextPage;
+        do {
+          const page = await this.paginateSolveNotifications({
+            uuid,
+            first: NOTIFICATION_PAGE_SIZE,
+            after: cursor,
+          });
+          if (stopped) {
+            return;
+          }
+          for (const notif of page.nodes) {
+            ee.emit('notification', notif);
+          }
+          const {endCursor} = page.info;
+          if (page.nodes.length && endCursor) {
+            cursor = endCursor;
+            progressed = true;
+            ee.emit('checkpoint', endCursor);
+          }
+          hasNextPage = page.info.hasNextPage;
+        } while (hasNextPage);
+
+        const {failure, outcome} = queuedSolve;
+        if (failure != null) {
+          stop();
+          ee.emit('failure', failure);
+        } else if (outcome != null) {
+          stop();
+          ee.emit('outcome', outcome);
+        } else {
+          if (progressed) {
+            xb.reset(); // Poll more frequently while the solve is progressing.
+          }
+          xb.backoff();
+        }
+      };
+
       xb.on('ready', () => {
-        this.graphqlSdk
-          .PollQueuedSolve({uuid})
-          .then((res) => {
-            const {queuedSolve} = okResultData(res);
-            assert(queuedSolve, 'Unknown solve');
-            const {failure, outcome} = queuedSolve;
-            if (failure != null) {
-              ee.emit('failure', failure);
-              return;
-            }
-            if (outcome == null) {
-              const notif = queuedSolve.notifications.edges[0]?.node;
-              if (notif) {
-                ee.emit('notification', notif);
-              }
-              xb.backoff();
-              return;
-            }
-            ee.emit('outcome', outcome);
-          })
-          .catch((err) => {
+        if (stopped) {
+          return;
+        }
+        poll().catch((err) => {
+          if (!stopped) {
+            stop();
             ee.emit('error', err);
-          });
-      }).backoff();
+          }
+        });
+      });
+      activeCall.run({signal: ab?.signal}, () => void xb.backoff());
     });
+    return Object.assign(tracker, {stop: () => void stop()});
   }
 
   /**
-   * Convenience method which resolves when the attempt is solved. Consider
-   * using `trackSolve` to get access to progress notifications and other
-   * statuses.
+   * Convenience method which resolves when the attempt is solved and rejects if
+   * it failed. Consider using `trackSolve` to get access to progress
+   * notifications and other statuses.
    */
-  async waitForOutcome(uuid: Uuid): Promise<api.Schema<'SolveOutcome'>> {
+  async waitForOutcome(
+    uuid: Uuid,
+    opts?: TrackSolveOptions
+  ): Promise<api.Schema<'SolveOutcome'>> {
     return new Promise((ok, fail) => {
-      this.trackSolve(uuid).on('error', fail).on('outcome', ok);
+      this.trackSolve(uuid, opts)
+        .on('error', fail)
+        .on('failure', (failure) => {
+          fail(clientErrors.queuedSolveFailed(uuid, failure));
+        })
+        .on('outcome', ok);
     });
   }
 
+  /**
+   * Fetches a queued solve's current status. Its outcome and failure will both
+   * be absent while it is pending.
+   */
+  async pollSolve(
+    uuid: Uuid,
+    opts?: CallOptions
+  ): Promise<
+    NonNullable<api.graphqlTypes.PollQueuedSolveQuery['queuedSolve']>
+  > {
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.PollQueuedSolve({uuid})
+    );
+    const {queuedSolve} = okResultData(res);
+    if (!queuedSolve) {
+      throw clientErrors.unknownSolve(uuid);
+    }
+    return queuedSolve;
+  }
+
   /** Cancels a pending queued solve. */
-  async cancelSolve(uuid: Uuid): Promise<boolean> {
-    const res = await this.graphqlSdk.CancelQueuedSolve({uuid});
+  async cancelSolve(uuid: Uuid, opts?: CallOptions): Promise<boolean> {
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.CancelQueuedSolve({uuid})
+    );
     return okResultData(res).cancelQueuedSolve;
   }
 
   /** Fetches a queued solve from its UUID. */
   async fetchSolve(
-    uuid: Uuid
+    uuid: Uuid,
+    opts?: CallOptions
   ): Promise<api.graphqlTypes.FetchedQueuedSolveFragment | undefined> {
-    const res = await this.graphqlSdk.FetchQueuedSolve({uuid});
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.FetchQueuedSolve({uuid})
+    );
     return okResultData(res).queuedSolve;
   }
 
   /** Paginates a queued solve's notifications. */
   async paginateSolveNotifications(
-    vars: api.graphqlTypes.PaginateQueuedSolveNotificationsQueryVariables
+    vars: api.graphqlTypes.PaginateQueuedSolveNotificationsQueryVariables,
+    opts?: CallOptions
   ): Promise<Paginated<api.graphqlTypes.FullSolveNotificationFragment>> {
-    const res = await this.graphqlSdk.PaginateQueuedSolveNotifications(vars);
+    const res = await this.withCallOptions(opts, () =>
+      this.graphqlSdk.PaginateQueuedSolveNotifications(vars)
+    );
     const notifs = okResultData(res).queuedSolve?.notifications;
     if (!notifs) {
       throw clientErrors.unknownSolve(vars.uuid);
@@ -431,9 +840,25 @@ export class OpviousClient {
     };
   }
 
+  /** Iterates over a queued solve's notifications. */
+  iterateSolveNotifications(
+    uuid: Uuid,
+    opts?: IterationOptions
+  ): AsyncIterableIterator<api.graphqlTypes.FullSolveNotificationFragment> {
+    return iterateNodes(
+      (vars) => this.paginateSolveNotifications({...vars, uuid}, opts),
+      opts
+    );
+  }
+
   /** Fetches an attempt's inputs from its UUID. */
-  async fetchSolveInputs(uuid: Uuid): Promise<api.Schema<'SolveInputs'>> {
-    const res = await this.sdk.getQueuedSolveInputs({params: {uuid}});
+  async fetchSolveInputs(
+    uuid: Uuid,
+    opts?: CallOptions
+  ): Promise<api.Schema<'SolveInputs'>> {
+    const res = await this.withCallOptions(opts, () =>
+      this.sdk.getQueuedSolveInputs({params: {uuid}})
+    );
     switch (res.code) {
       case 200:
         return res.data;
@@ -449,9 +874,12 @@ export class OpviousClient {
    * `undefined` if the attempt was not feasible.
    * */
   async fetchSolveOutputs(
-    uuid: Uuid
+    uuid: Uuid,
+    opts?: CallOptions
   ): Promise<api.Schema<'SolveOutputs'> | undefined> {
-    const res = await this.sdk.getQueuedSolveOutputs({params: {uuid}});
+    const res = await this.withCallOptions(opts, () =>
+      this.sdk.getQueuedSolveOutputs({params: {uuid}})
+    );
     switch (res.code) {
       case 200:
         return res.data;
@@ -488,8 +916,49 @@ export interface OpviousClientOptions {
    */
   readonly maxRetryDelayMillis?: number;
 
+  /** Policy used to retry transient failures. */
+  readonly retryPolicy?: RetryPolicy;
+
+  /**
+   * Maximum number of milliseconds to wait for each API request's response
+   * headers. Response bodies (for example inline solve streams) are not
+   * subject to this timeout, use per-call options to bound them instead. By
+   * default requests never time out.
+   */
+  readonly requestTimeoutMillis?: number;
+
+  /**
+   * Records API interactions to a cassette file, or replays them from one. The
+   * authorization header is redacted from recorded requests.
+   */
+  readonly cassette?: CassetteOptions;
+
+  /**
+   * Middleware applied to all API requests (REST and GraphQL), in order. For
+   * example to add custom headers or record latency metrics.
+   */
+  readonly middleware?: ReadonlyArray<Middleware>;
+
+  /**
+   * Connection options, for example proxy or custom certificate authority.
+   * Proxy environment variables (`HTTPS_PROXY`, `NO_PROXY`, ...) are honored
+   * by default.
+   */
+  readonly agent?: AgentOptions;
+
+  /** Request body compression options. */
+  readonly compression?: CompressionOptions;
+
+  /**
+   * Cache used by `solve` to return outcomes of identical problems without
+   * solving them again. Disabled by default.
+   */
+  readonly solveCache?: SolveCacheOptions;
+
   /** Impersonation information (only available to administrators). */
   readonly impersonation?: string;
 }
 
 const DEFAULT_ENDPOINT = 'https://api.cloud.opvious.io';
+
+const NOTIFICATION_PAGE_SIZE = 25;
@@ -0,0 +1,236 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as api from '@opvious/api';
+import {ifPresent} from '@opvious/stl-utils/functions';
+
+/**
+ * Generates the source of a TypeScript module with typed inputs and outputs
+ * for a formulation. The module exports `Inputs` and `Outputs` interfaces
+ * along with `toProblem` and `fromOutputs` helpers to convert them from and to
+ * the API's representation.
+ */
+export function generateFormulationModule(args: {
+  readonly formulationName: string;
+  readonly tagName?: string;
+  readonly outline: api.Schema<'Outline'>;
+  /** Module from which API types are imported. Defaults to `opvious/api`. */
+  readonly apiModule?: string;
+}): string {
+  const {formulationName, tagName, outline} = args;
+  const w = new SourceWriter();
+
+  const desc = formulationName + (tagName ? ` (tag ${tagName})` : '');
+  w.line(`// Generated from formulation ${desc}, do not edit.`);
+  w.line();
+  w.line(`import type {Schema} from ${q(args.apiModule ?? 'opvious/api')};`);
+  w.line();
+  w.line(`export const FORMULATION_NAME = ${q(formulationName)};`);
+  w.line();
+  w.line(
+    `export const SPECIFICATION_TAG_NAME: string | undefined = ` +
+      `${tagName == null ? 'undefined' : q(tagName)};`
+  );
+  w.line();
+  w.line('export type KeyItem = Schema<\'KeyItem\'>;');
+  w.line();
+  w.line('export interface Entry<K extends ReadonlyArray<KeyItem>> {');
+  w.line('  readonly key: K;');
+  w.line('  /** Defaults to 1. */');
+  w.line('  readonly value?: number;');
+  w.line('}');
+  w.line();
+  w.line('export interface Result<K extends ReadonlyArray<KeyItem>> {');
+  w.line('  readonly key: K;');
+  w.line('  readonly value: number;');
+  w.line('}');
+
+  const itemTypes = new Map<string, string>();
+  const typeNames = new Set<string>();
+  for (const dim of outline.dimensions) {
+    let name = pascalCase(dim.label) + 'Item';
+    for (let ix = 2; typeNames.has(name); ix++) {
+      name = pascalCase(dim.label) + ix + 'Item';
+    }
+    typeNames.add(name);
+    itemTypes.set(dim.label, name);
+    w.line();
+    w.line(`/** Item of dimension \`${dim.label}\`. */`);
+    w.line(`export type ${name} = ${dim.isNumeric ? 'number' : 'string'};`);
+  }
+
+  const keyType = (tsr: TensorOutline): string => {
+    const items = tsr.bindings.map(
+      (b) => ifPresent(b.dimensionLabel, (l) => itemTypes.get(l)) ?? 'KeyItem'
+    );
+    return `readonly [${items.join(', ')}]`;
+  };
+
+  const params = outline.parameters.filter((p) => p.derivation == null);
+  w.line();
+  w.line('export interface Inputs {');
+  if (outline.dimensions.length) {
+    w.line('  readonly dimensions?: {');
+    for (const dim of outline.dimensions) {
+      w.line(
+        `    readonly ${prop(dim.label)}?: ` +
+          `ReadonlyArray<${itemTypes.get(dim.label)}>;`
+      );
+    }
+    w.line('  };');
+  }
+  w.line('  readonly parameters: {');
+  for (const param of params) {
+    w.line(`    /** ${tensorDescription('Parameter', param)} */`);
+    w.line(
+      `    readonly ${prop(param.label)}: ` +
+        (param.bindings.length
+          ? `ReadonlyArray<Entry<${keyType(param)}>>;`
+          : 'number;')
+    );
+  }
+  w.line('  };');
+  w.line('}');
+
+  w.line();
+  w.line('export interface Outputs {');
+  w.line('  readonly variables: {');
+  for (const variable of outline.variables) {
+    w.line(`    /** ${tensorDescription('Variable', variable)} */`);
+    w.line(
+      `    readonly ${prop(variable.label)}: ` +
+        (variable.bindings.length
+          ? `ReadonlyArray<Result<${keyType(variable)}>>;`
+          : 'number;')
+    );
+  }
+  w.line('  };');
+  w.line('}');
+
+  w.line();
+  w.line('/** Converts typed inputs to a problem, ready to be solved. */');
+  w.line('export function toProblem(');
+  w.line('  inputs: Inputs,');
+  w.line('  options?: Schema<\'SolveOptions\'>');
+  w.line('): Schema<\'Problem\'> {');
+  w.line('  const dimensions: Schema<\'Dimension\'>[] = [];');
+  if (outline.dimensions.length) {
+    w.line('  for (const [label, items] of Object.entries(');
+    w.line('    inputs.dimensions ?? {}');
+    w.line('  ) as [string, ReadonlyArray<KeyItem> | undefined][]) {');
+    w.line('    if (items) {');
+    w.line('      dimensions.push({label, items: [...items]});');
+    w.line('    }');
+    w.line('  }');
+  }
+  w.line('  const parameters: Schema<\'Tensor\'>[] = [];');
+  w.line('  for (const [label, val] of Object.entries(inputs.parameters) as [');
+  w.line('    string,');
+  w.line('    number | ReadonlyArray<Entry<ReadonlyArray<KeyItem>>>,');
+  w.line('  ][]) {');
+  w.line('    parameters.push({');
+  w.line('      label,');
+  w.line('      entries:');
+  w.line('        typeof val == \'number\'');
+  w.line('          ? [{key: [], value: val}]');
+  w.line('          : val.map((e) => ({key: [...e.key], value: e.value})),');
+  w.line('    });');
+  w.line('  }');
+  w.line('  return {');
+  w.line('    formulation: {');
+  w.line('      name: FORMULATION_NAME,');
+  w.line('      specificationTagName: SPECIFICATION_TAG_NAME,');
+  w.line('    },');
+  w.line('    inputs: {dimensions, parameters},');
+  w.line('    options,');
+  w.line('  };');
+  w.line('}');
+
+  w.line();
+  w.line('/** Converts a solve\'s outputs to typed outputs. */');
+  w.line(
+    'export function fromOutputs(outputs: Schema<\'SolveOutputs\'>): Outputs {'
+  );
+  w.line('  const results = new Map(');
+  w.line('    outputs.variables.map((r) => [r.label, r.entries])');
+  w.line('  );');
+  w.line('  const entries = <K extends ReadonlyArray<KeyItem>>(');
+  w.line('    label: string');
+  w.line('  ): ReadonlyArray<Result<K>> =>');
+  w.line(
+    '    (results.get(label) ?? []) as unknown as ReadonlyArray<Result<K>>;'
+  );
+  w.line('  const scalar = (label: string): number =>');
+  w.line('    results.get(label)?.[0]?.value ?? 0;');
+  w.line('  return {');
+  w.line('    variables: {');
+  for (const variable of outline.variables) {
+    const fn = variable.bindings.length ? 'entries' : 'scalar';
+    w.line(`      ${prop(variable.label)}: ${fn}(${q(variable.label)}),`);
+  }
+  w.line('    },');
+  w.line('  };');
+  w.line('}');
+
+  return w.toString();
+}
+
+type TensorOutline = Omit<api.Schema<'ParameterOutline'>, 'derivation'>;
+
+class SourceWriter {
+  private readonly lines: string[] = [];
+
+  line(str = ''): void {
+    this.lines.push(str);
+  }
+
+  toString(): string {
+    return this.lines.join('\n') + '\n';
+  }
+}
+
+function tensorDescription(kind: string, tsr: TensorOutline): string {
+  const {image} = tsr;
+  const bounds = `[${image.lowerBound}, ${image.upperBound}]`;
+  const bindings = tsr.bindings
+    .map((b) => b.qualifier ?? b.dimensionLabel ?? '?')
+    .join(', ');
+  return (
+    `${kind} \`${tsr.label}\`` +
+    (bindings ? `, keyed by (${bindings})` : '') +
+    `, with ${image.isIntegral ? 'integral ' : ''}values in ${bounds}.`
+  );
+}
+
+function q(str: string): string {
+  return `'${str.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function prop(label: string): string {
+  return IDENTIFIER_PATTERN.test(label) ? label : q(label);
+}
+
+function pascalCase(label: string): string {
+  const name = label
+    .split(/[^A-Za-z0-9]+/)
+    .filter((s) => s)
+    .map((s) => s.charAt(0).toUpperCase() + s.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(name) ? name : 'D' + name;
+}
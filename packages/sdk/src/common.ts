@@ -30,6 +30,12 @@ export const packageInfo = __inlinable((ctx) =>
 );
 
 /** Returns the input string with any trailing slashes removed. */
+export function isRecord(
+  val: unknown
+): val is {readonly [key: string]: unknown} {
+  return val != null && typeof val == 'object' && !Array.isArray(val);
+}
+
 export function strippingTrailingSlashes(arg: string | URL): string {
   return ('' + arg).replace(/\/+$/, '');
 }
@@ -0,0 +1,292 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as api from '@opvious/api';
+
+import {SolvedProblem} from './client/index.js';
+import {jsonChunks} from './json.js';
+import {KeyItem} from './validation.js';
+
+/** Change of an arbitrary value, absent values are `undefined`. */
+export interface ValueChange<V = unknown> {
+  readonly before: V | undefined;
+  readonly after: V | undefined;
+}
+
+/** Items added to and removed from a dimension. */
+export interface DimensionDiff {
+  readonly label: string;
+  readonly added: ReadonlyArray<KeyItem>;
+  readonly removed: ReadonlyArray<KeyItem>;
+}
+
+/**
+ * Changed tensor entry. Values are `undefined` for entries missing on one
+ * side, except for outputs where missing entries are zero-valued.
+ */
+export interface EntryChange extends ValueChange<number> {
+  readonly key: ReadonlyArray<KeyItem>;
+}
+
+/** Changed entries of a single tensor. */
+export interface TensorDiff {
+  readonly label: string;
+  readonly changes: ReadonlyArray<EntryChange>;
+  /** Only present for parameters whose default value changed. */
+  readonly defaultValue?: ValueChange<number>;
+}
+
+/** Changed option, identified by its dot-separated path. */
+export interface OptionChange extends ValueChange {
+  readonly path: string;
+}
+
+/** Differences between two problems. Unchanged elements are omitted. */
+export interface ProblemDiff {
+  readonly formulation?: ValueChange<api.Schema<'Problem'>['formulation']>;
+  readonly dimensions: ReadonlyArray<DimensionDiff>;
+  readonly parameters: ReadonlyArray<TensorDiff>;
+  readonly options: ReadonlyArray<OptionChange>;
+  readonly transformations?: ValueChange<
+    api.Schema<'Problem'>['transformations']
+  >;
+}
+
+/** Differences between two solves. Unchanged elements are omitted. */
+export interface OutputsDiff {
+  readonly status?: ValueChange<string>;
+  /** Difference between the objective values (after minus before). */
+  readonly objectiveDelta?: number;
+  readonly variables: ReadonlyArray<TensorDiff>;
+  readonly constraints: ReadonlyArray<TensorDiff>;
+}
+
+/** Returns true if the diff has no changes. */
+export function isEmptyDiff(diff: ProblemDiff | OutputsDiff): boolean {
+  if ('parameters' in diff) {
+    return (
+      !diff.formulation &&
+      !diff.dimensions.length &&
+      !diff.parameters.length &&
+      !diff.options.length &&
+      !diff.transformations
+    );
+  }
+  return (
+    !diff.status &&
+    !diff.objectiveDelta &&
+    !diff.variables.length &&
+    !diff.constraints.length
+  );
+}
+
+/**
+ * Computes the differences between two problems: formulation reference,
+ * dimension items, parameter entries (explicit values, defaulting to 1),
+ * options, and transformations.
+ */
+export function diffProblems(
+  before: api.Schema<'Problem'>,
+  after: api.Schema<'Problem'>
+): ProblemDiff {
+  const dimensions: DimensionDiff[] = [];
+  const dims1 = byLabel(before.inputs.dimensions ?? []);
+  const dims2 = byLabel(after.inputs.dimensions ?? []);
+  for (const label of unionKeys(dims1, dims2)) {
+    const items1 = new Set(dims1.get(label)?.items);
+    const items2 = new Set(dims2.get(label)?.items);
+    const added = [...items2].filter((i) => !items1.has(i));
+    const removed = [...items1].filter((i) => !items2.has(i));
+    if (added.length || removed.length) {
+      dimensions.push({label, added, removed});
+    }
+  }
+
+  const parameters: TensorDiff[] = [];
+  const params1 = byLabel(before.inputs.parameters);
+  const params2 = byLabel(after.inputs.parameters);
+  for (const label of unionKeys(params1, params2)) {
+    const param1 = params1.get(label);
+    const param2 = params2.get(label);
+    const changes = diffEntries(
+      entryValues(param1?.entries ?? []),
+      entryValues(param2?.entries ?? []),
+      (val1, val2) => val1 !== val2
+    );
+    const def1 = param1?.defaultValue;
+    const def2 = param2?.defaultValue;
+    const defaultValue =
+      def1 === def2 ? undefined : {before: def1, after: def2};
+    if (changes.length || defaultValue) {
+      parameters.push({label, changes, defaultValue});
+    }
+  }
+
+  const options: OptionChange[] = [];
+  const opts1 = flattenOptions(before.options);
+  const opts2 = flattenOptions(after.options);
+  for (const path of unionKeys(opts1, opts2)) {
+    const opt1 = opts1.get(path);
+    const opt2 = opts2.get(path);
+    if (canonical(opt1) !== canonical(opt2)) {
+      options.push({path, before: opt1, after: opt2});
+    }
+  }
+
+  return {
+    formulation: valueChange(before.formulation, after.formulation),
+    dimensions,
+    parameters,
+    options,
+    transformations: valueChange(before.transformations, after.transformations),
+  };
+}
+
+/**
+ * Computes the differences between two solves' outcomes and outputs. Entries
+ * missing from outputs are considered zero-valued and value changes within the
+ * tolerance (default 1e-6) are ignored.
+ */
+export function diffOutputs(
+  before: SolvedProblem,
+  after: SolvedProblem,
+  opts?: {readonly tolerance?: number}
+): OutputsDiff {
+  const tolerance = opts?.tolerance ?? 1e-6;
+  const diffTensors = (
+    tsrs1: ReadonlyArray<api.Schema<'TensorResult'>> | undefined,
+    tsrs2: ReadonlyArray<api.Schema<'TensorResult'>> | undefined
+  ): TensorDiff[] => {
+    const diffs: TensorDiff[] = [];
+    const results1 = byLabel(tsrs1 ?? []);
+    const results2 = byLabel(tsrs2 ?? []);
+    for (const label of unionKeys(results1, results2)) {
+      const changes = diffEntries(
+        entryValues(results1.get(label)?.entries ?? []),
+        entryValues(results2.get(label)?.entries ?? []),
+        (val1 = 0, val2 = 0) => Math.abs(val2 - val1) > tolerance
+      ).map((c) => ({key: c.key, before: c.before ?? 0, after: c.after ?? 0}));
+      if (changes.length) {
+        diffs.push({label, changes});
+      }
+    }
+    return diffs;
+  };
+
+  const {outcome: outcome1, outputs: outputs1} = before;
+  const {outcome: outcome2, outputs: outputs2} = after;
+  const obj1 = outcome1.objectiveValue;
+  const obj2 = outcome2.objectiveValue;
+  const objectiveDelta =
+    typeof obj1 == 'number' &&
+    typeof obj2 == 'number' &&
+    Math.abs(obj2 - obj1) > tolerance
+      ? obj2 - obj1
+      : undefined;
+  return {
+    status:
+      outcome1.status === outcome2.status
+        ? undefined
+        : {before: outcome1.status, after: outcome2.status},
+    objectiveDelta,
+    variables: diffTensors(outputs1?.variables, outputs2?.variables),
+    constraints: diffTensors(outputs1?.constraints, outputs2?.constraints),
+  };
+}
+
+function byLabel<V extends {readonly label: string}>(
+  arr: ReadonlyArray<V>
+): ReadonlyMap<string, V> {
+  return new Map(arr.map((v) => [v.label, v]));
+}
+
+/** Returns the keys of both maps, in order of first appearance. */
+function unionKeys<K>(
+  map1: ReadonlyMap<K, unknown>,
+  map2: ReadonlyMap<K, unknown>
+): ReadonlyArray<K> {
+  return [...new Set([...map1.keys(), ...map2.keys()])];
+}
+
+interface KeyedValue {
+  readonly key: ReadonlyArray<KeyItem>;
+  readonly value: number;
+}
+
+function entryValues(
+  entries: ReadonlyArray<{
+    readonly key: ReadonlyArray<KeyItem>;
+    readonly value?: number;
+  }>
+): ReadonlyMap<string, KeyedValue> {
+  return new Map(
+    entries.map((e) => [
+      JSON.stringify(e.key),
+      {key: e.key, value: e.value ?? 1},
+    ])
+  );
+}
+
+function diffEntries(
+  entries1: ReadonlyMap<string, KeyedValue>,
+  entries2: ReadonlyMap<string, KeyedValue>,
+  differ: (val1: number | undefined, val2: number | undefined) => boolean
+): EntryChange[] {
+  const changes: EntryChange[] = [];
+  for (const hash of unionKeys(entries1, entries2)) {
+    const entry1 = entries1.get(hash);
+    const entry2 = entries2.get(hash);
+    if (differ(entry1?.value, entry2?.value)) {
+      changes.push({
+        key: (entry1 ?? entry2)!.key,
+        before: entry1?.value,
+        after: entry2?.value,
+      });
+    }
+  }
+  return changes;
+}
+
+/** Flattens nested option objects into dot-separated paths. */
+function flattenOptions(
+  opts: object | undefined
+): ReadonlyMap<string, unknown> {
+  const flat = new Map<string, unknown>();
+  const visit = (obj: object, prefix: string): void => {
+    for (const [key, val] of Object.entries(obj)) {
+      if (val === undefined) {
+        continue;
+      }
+      const path = prefix + key;
+      if (val && typeof val == 'object' && !Array.isArray(val)) {
+        visit(val, path + '.');
+      } else {
+        flat.set(path, val);
+      }
+    }
+  };
+  visit(opts ?? {}, '');
+  return flat;
+}
+
+function valueChange<V>(before: V, after: V): ValueChange<V> | undefined {
+  return canonical(before) === canonical(after) ? undefined : {before, after};
+}
+
+function canonical(val: unknown): string {
+  return [...jsonChunks(val, {sortKeys: true})].join('');
+}
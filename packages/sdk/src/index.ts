@@ -15,5 +15,16 @@
  * the License.
  */
 
+export * from './batch.js';
+export * from './builder.js';
+export * from './bundles.js';
 export * from './client/index.js';
+export * from './codegen.js';
+export * from './diff.js';
+export * from './models.js';
+export * from './pinning.js';
+export * from './progress.js';
+export * from './results.js';
+export * from './scenarios.js';
 export * from './solves.js';
+export * from './validation.js';
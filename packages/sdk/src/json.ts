@@ -0,0 +1,315 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import {errors} from '@opvious/stl-errors';
+
+const CHUNK_LENGTH = 2 ** 16;
+
+/**
+ * Serializes a value to JSON incrementally, yielding chunks of roughly 64k
+ * characters. The output is identical to `JSON.stringify`'s, but the full
+ * string is never materialized. This is useful for problems with very large
+ * tensors, whose serialization would otherwise exceed memory limits.
+ *
+ * If `sortKeys` is set, object keys are output in lexicographic order. This
+ * produces a canonical representation, for example suitable for hashing.
+ */
+export function* jsonChunks(
+  val: unknown,
+  opts?: {readonly sortKeys?: boolean}
+): Generator<string, void> {
+  const sortKeys = !!opts?.sortKeys;
+  let buf = '';
+  for (const part of jsonParts(val, sortKeys)) {
+    buf += part;
+    if (buf.length >= CHUNK_LENGTH) {
+      yield buf;
+      buf = '';
+    }
+  }
+  if (buf) {
+    yield buf;
+  }
+}
+
+function* jsonParts(val: unknown, sortKeys: boolean): Generator<string, void> {
+  if (!isComposite(val) || isFlat(val)) {
+    // Flat objects' members have no nested keys, so the replacer only filters
+    // (and orders) their top-level keys.
+    const keys =
+      sortKeys && isComposite(val) && !Array.isArray(val)
+        ? Object.keys(val).sort()
+        : undefined;
+    yield JSON.stringify(val, keys) ?? 'null';
+    return;
+  }
+  if (Array.isArray(val)) {
+    yield '[';
+    for (const [ix, item] of val.entries()) {
+      if (ix) {
+        yield ',';
+      }
+      yield* jsonParts(isSerializable(item) ? item : null, sortKeys);
+    }
+    yield ']';
+    return;
+  }
+  yield '{';
+  let first = true;
+  const entries = Object.entries(val);
+  if (sortKeys) {
+    entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+  for (const [key, item] of entries) {
+    if (!isSerializable(item)) {
+      continue;
+    }
+    yield (first ? '' : ',') + JSON.stringify(key) + ':';
+    yield* jsonParts(item, sortKeys);
+    first = false;
+  }
+  yield '}';
+}
+
+function isComposite(val: unknown): val is object {
+  return typeof val == 'object' && val != null && !hasToJson(val);
+}
+
+function hasToJson(val: object): boolean {
+  return 'toJSON' in val && typeof val.toJSON == 'function';
+}
+
+function isSerializable(val: unknown): boolean {
+  return (
+    val !== undefined && typeof val != 'function' && typeof val != 'symbol'
+  );
+}
+
+/**
+ * Returns true if the value's members are all primitives or arrays of
+ * primitives, in which case it can be serialized in one go. This keeps the
+ * number of yielded parts low (for example one per tensor entry).
+ */
+function isFlat(val: object): boolean {
+  for (const item of Object.values(val)) {
+    if (!isComposite(item)) {
+      continue;
+    }
+    if (!Array.isArray(item) || item.some(isComposite)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+type Frame =
+  | {readonly kind: 'array'; readonly value: unknown[]}
+  | {
+      readonly kind: 'object';
+      readonly value: {[key: string]: unknown};
+      key: string | undefined;
+    };
+
+/**
+ * Next token allowed by the grammar. Containers' first members are expected
+ * separately since they may be replaced by the closing bracket.
+ */
+type Expectation =
+  | 'value'
+  | 'firstValue'
+  | 'key'
+  | 'firstKey'
+  | 'colon'
+  | 'commaOrClose'
+  | 'end';
+
+const WHITESPACE = new Set([' ', '\t', '\n', '\r']);
+
+const LITERAL_PATTERN = /[-+.0-9a-zA-Z]/;
+
+/**
+ * Incremental JSON parser, which allows parsing documents whose text is too
+ * large to be held in a single string. Chunks can be split at any character.
+ */
+export class JsonStreamParser {
+  private readonly stack: Frame[] = [];
+  private root: unknown;
+  private expecting: Expectation = 'value';
+  /** Partial string or literal token, including its opening quote if any. */
+  private token: string | undefined;
+  private escaped = false;
+
+  write(chunk: string): void {
+    let ix = 0;
+    while (ix < chunk.length) {
+      const {token} = this;
+      if (token != null) {
+        ix = token.startsWith('"')
+          ? this.continueString(chunk, ix)
+          : this.continueLiteral(chunk, ix);
+        continue;
+      }
+      const char = chunk[ix]!;
+      ix++;
+      if (WHITESPACE.has(char)) {
+        continue;
+      }
+      const {expecting} = this;
+      const frame = this.stack[this.stack.length - 1];
+      switch (char) {
+        case ',':
+          if (!frame || expecting !== 'commaOrClose') {
+            throw unexpectedCharacter(char);
+          }
+          this.expecting = frame.kind === 'array' ? 'value' : 'key';
+          break;
+        case ':':
+          if (expecting !== 'colon') {
+            throw unexpectedCharacter(char);
+          }
+          this.expecting = 'value';
+          break;
+        case '{':
+        case '[':
+          if (!expectsValue(expecting)) {
+            throw unexpectedCharacter(char);
+          }
+          this.stack.push(
+            char === '{'
+              ? {kind: 'object', value: {}, key: undefined}
+              : {kind: 'array', value: []}
+          );
+          this.expecting = char === '{' ? 'firstKey' : 'firstValue';
+          break;
+        case '}':
+        case ']': {
+          const isArray = char === ']';
+          if (
+            !frame ||
+            (frame.kind === 'array') !== isArray ||
+            (expecting !== 'commaOrClose' &&
+              expecting !== (isArray ? 'firstValue' : 'firstKey'))
+          ) {
+            throw unexpectedCharacter(char);
+          }
+          this.stack.pop();
+          this.emit(frame.value);
+          break;
+        }
+        case '"':
+          if (!expectsValue(expecting) && !expectsKey(expecting)) {
+            throw unexpectedCharacter(char);
+          }
+          this.token = char;
+          this.escaped = false;
+          break;
+        default:
+          if (!expectsValue(expecting) || !LITERAL_PATTERN.test(char)) {
+            throw unexpectedCharacter(char);
+          }
+          this.token = char;
+      }
+    }
+  }
+
+  /** Flushes any pending literal and returns the parsed value. */
+  end(): unknown {
+    if (this.token != null && !this.token.startsWith('"')) {
+      this.emitLiteral();
+    }
+    if (this.expecting !== 'end' || this.token != null) {
+      throw errors.invalid({message: 'Unexpected end of JSON input'});
+    }
+    return this.root;
+  }
+
+  private continueString(chunk: string, start: number): number {
+    let ix = start;
+    while (ix < chunk.length) {
+      const char = chunk[ix++]!;
+      if (this.escaped) {
+        this.escaped = false;
+      } else if (char === '\\') {
+        this.escaped = true;
+      } else if (char === '"') {
+        const raw = this.token + chunk.slice(start, ix);
+        this.token = undefined;
+        this.emit(JSON.parse(raw));
+        return ix;
+      }
+    }
+    this.token += chunk.slice(start);
+    return ix;
+  }
+
+  private continueLiteral(chunk: string, start: number): number {
+    let ix = start;
+    while (ix < chunk.length && LITERAL_PATTERN.test(chunk[ix]!)) {
+      ix++;
+    }
+    this.token += chunk.slice(start, ix);
+    if (ix < chunk.length) {
+      this.emitLiteral();
+    }
+    return ix;
+  }
+
+  private emitLiteral(): void {
+    const raw = this.token!;
+    this.token = undefined;
+    let val;
+    try {
+      val = JSON.parse(raw);
+    } catch (cause) {
+      throw errors.invalid({message: `Invalid JSON literal: ${raw}`, cause});
+    }
+    this.emit(val);
+  }
+
+  /** Adds a parsed value (or key) to the current container. */
+  private emit(val: unknown): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      this.root = val;
+      this.expecting = 'end';
+      return;
+    }
+    if (frame.kind === 'array') {
+      frame.value.push(val);
+      this.expecting = 'commaOrClose';
+    } else if (expectsKey(this.expecting)) {
+      frame.key = val as string; // Only strings can be emitted as keys.
+      this.expecting = 'colon';
+    } else {
+      frame.value[frame.key!] = val;
+      frame.key = undefined;
+      this.expecting = 'commaOrClose';
+    }
+  }
+}
+
+function expectsValue(expecting: Expectation): boolean {
+  return expecting === 'value' || expecting === 'firstValue';
+}
+
+function expectsKey(expecting: Expectation): boolean {
+  return expecting === 'key' || expecting === 'firstKey';
+}
+
+function unexpectedCharacter(char: string): Error {
+  return errors.invalid({message: `Unexpected character in JSON: ${char}`});
+}
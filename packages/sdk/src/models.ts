@@ -0,0 +1,1081 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as api from '@opvious/api';
+
+import {clientErrors} from './client/common.js';
+import {isRecord} from './common.js';
+import {SolveResult} from './results.js';
+import {KeyItem} from './validation.js';
+
+/** Supported `ModelFormat` values. */
+export const modelFormats = ['lp', 'mps', 'json'] as const;
+
+/**
+ * Representation of a problem's instructions: CPLEX LP, free MPS, or a JSON
+ * dump of the corresponding `LinearModel`.
+ */
+export type ModelFormat = (typeof modelFormats)[number];
+
+/** Coefficients of a linear expression, keyed by variable name. */
+export interface LinearTerms {
+  readonly [variable: string]: number;
+}
+
+/** Model column. Missing bounds are infinite. */
+export interface LinearVariable {
+  readonly name: string;
+  readonly lowerBound?: number;
+  readonly upperBound?: number;
+  readonly integral?: boolean;
+}
+
+/** Model row. Missing bounds are infinite. */
+export interface LinearConstraint {
+  readonly name: string;
+  readonly terms: LinearTerms;
+  readonly lowerBound?: number;
+  readonly upperBound?: number;
+}
+
+export interface LinearObjective {
+  readonly name?: string;
+  readonly isMaximization: boolean;
+  readonly terms: LinearTerms;
+  readonly constant?: number;
+}
+
+/** Mixed-integer linear model, as exported from or imported into solvers. */
+export interface LinearModel {
+  readonly objective: LinearObjective;
+  /** Variables, in order of first appearance. */
+  readonly variables: ReadonlyArray<LinearVariable>;
+  readonly constraints: ReadonlyArray<LinearConstraint>;
+}
+
+/** Parses a model from its LP, MPS, or JSON representation. */
+export function parseLinearModel(
+  text: string,
+  format: ModelFormat
+): LinearModel {
+  switch (format) {
+    case 'lp':
+      return parseLp(text);
+    case 'mps':
+      return parseMps(text);
+    case 'json':
+      return parseJsonModel(text);
+  }
+}
+
+/** Serializes a model to the given representation. */
+export function formatLinearModel(
+  model: LinearModel,
+  format: ModelFormat
+): string {
+  switch (format) {
+    case 'lp':
+      return formatLp(model);
+    case 'mps':
+      return formatMps(model);
+    case 'json':
+      return JSON.stringify(model, null, 2);
+  }
+}
+
+/** Tensor entry corresponding to a model's column or row. */
+export interface NamedEntry {
+  readonly label: string;
+  readonly key: ReadonlyArray<KeyItem>;
+}
+
+/**
+ * Mapping from model column and row names to the tensor entries they
+ * represent. Names without a mapping are treated as scalar tensors labeled by
+ * the name itself.
+ */
+export interface ModelNaming {
+  readonly variables?: {readonly [name: string]: NamedEntry};
+  readonly constraints?: {readonly [name: string]: NamedEntry};
+}
+
+/**
+ * Extracts variable values from a solver's solution file, for example one
+ * written by HiGHS or CBC. Each line is scanned for the name of one of the
+ * model's variables, followed by a numeric value. Only the first value of each
+ * variable is kept, so that later sections (for example reduced costs) are
+ * ignored.
+ */
+export function parseSolutionValues(
+  text: string,
+  model: LinearModel
+): ReadonlyMap<string, number> {
+  const names = new Set(model.variables.map((v) => v.name));
+  const values = new Map<string, number>();
+  for (const line of text.split(/\r?\n/)) {
+    const tokens = line.trim().split(/\s+/);
+    for (const [ix, token] of tokens.entries()) {
+      if (!names.has(token) || values.has(token)) {
+        continue;
+      }
+      const value = Number(tokens[ix + 1]);
+      if (tokens[ix + 1] != null && !isNaN(value)) {
+        values.set(token, value);
+        break;
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * Maps a locally computed solution back to tensor results. Variables without
+ * a value are considered zero-valued. Constraint results hold each row's
+ * activity (the value of its left-hand side), which makes it easy to spot
+ * violated bounds. The outcome's objective value is recomputed from the model.
+ */
+export function linearModelResult(
+  model: LinearModel,
+  values: ReadonlyMap<string, number>,
+  opts?: {
+    readonly naming?: ModelNaming;
+    readonly status?: api.Schema<'SolveOutcome'>['status'];
+  }
+): SolveResult {
+  const evaluate = (terms: LinearTerms): number => {
+    let sum = 0;
+    for (const [name, coef] of Object.entries(terms)) {
+      sum += coef * (values.get(name) ?? 0);
+    }
+    return sum;
+  };
+  const tensors = (
+    names: ReadonlyMap<string, number>,
+    mapping: {readonly [name: string]: NamedEntry} | undefined
+  ): api.Schema<'TensorResult'>[] => {
+    const entries = new Map<
+      string,
+      {key: ReadonlyArray<KeyItem>; value: number}[]
+    >();
+    for (const [name, value] of names) {
+      const {label, key} = mapping?.[name] ?? {label: name, key: []};
+      let arr = entries.get(label);
+      if (!arr) {
+        arr = [];
+        entries.set(label, arr);
+      }
+      arr.push({key, value});
+    }
+    return [...entries].map(([label, arr]) => ({label, entries: arr}));
+  };
+
+  const {objective} = model;
+  const outcome: api.Schema<'SolveOutcome'> = {
+    status: opts?.status ?? 'FEASIBLE',
+    objectiveValue: (objective.constant ?? 0) + evaluate(objective.terms),
+  };
+  const variables = tensors(
+    new Map(model.variables.map((v) => [v.name, values.get(v.name) ?? 0])),
+    opts?.naming?.variables
+  );
+  const constraints = tensors(
+    new Map(model.constraints.map((c) => [c.name, evaluate(c.terms)])),
+    opts?.naming?.constraints
+  );
+  return SolveResult.create(outcome, {variables, constraints});
+}
+
+interface MutableBounds {
+  lowerBound: number;
+  upperBound: number;
+}
+
+interface MutableVariable extends MutableBounds {
+  integral: boolean;
+}
+
+interface MutableConstraint extends MutableBounds {
+  readonly terms: Map<string, number>;
+}
+
+/** Mutable model, used while parsing. Bounds are always numeric here. */
+class ModelBuilder {
+  isMaximization = false;
+  objectiveName: string | undefined;
+  readonly objective = new Map<string, number>();
+  constant = 0;
+  private readonly variables = new Map<string, MutableVariable>();
+  private readonly constraints = new Map<string, MutableConstraint>();
+
+  variable(name: string): MutableVariable {
+    let vr = this.variables.get(name);
+    if (!vr) {
+      vr = {lowerBound: 0, upperBound: Infinity, integral: false};
+      this.variables.set(name, vr);
+    }
+    return vr;
+  }
+
+  constraint(name: string): MutableConstraint {
+    let cs = this.constraints.get(name);
+    if (!cs) {
+      cs = {terms: new Map(), lowerBound: -Infinity, upperBound: Infinity};
+      this.constraints.set(name, cs);
+    }
+    return cs;
+  }
+
+  /** Returns an unused default constraint name. */
+  freshConstraintName(): string {
+    let ix = this.constraints.size;
+    let name;
+    do {
+      name = `c${++ix}`;
+    } while (this.constraints.has(name));
+    return name;
+  }
+
+  addTerm(terms: Map<string, number>, name: string, coef: number): void {
+    this.variable(name);
+    terms.set(name, (terms.get(name) ?? 0) + coef);
+  }
+
+  build(): LinearModel {
+    return {
+      objective: {
+        name: this.objectiveName,
+        isMaximization: this.isMaximization,
+        terms: Object.fromEntries(this.objective),
+        constant: this.constant || undefined,
+      },
+      variables: [...this.variables].map(([name, vr]) => ({
+        name,
+        lowerBound: finite(vr.lowerBound),
+        upperBound: finite(vr.upperBound),
+        integral: vr.integral || undefined,
+      })),
+      constraints: [...this.constraints].map(([name, cs]) => ({
+        name,
+        terms: Object.fromEntries(cs.terms),
+        lowerBound: finite(cs.lowerBound),
+        upperBound: finite(cs.upperBound),
+      })),
+    };
+  }
+}
+
+function finite(val: number): number | undefined {
+  return isFinite(val) ? val : undefined;
+}
+
+// LP format
+
+type LpSection =
+  | 'minimize'
+  | 'maximize'
+  | 'constraints'
+  | 'bounds'
+  | 'generals'
+  | 'binaries'
+  | 'end';
+
+const lpSections = new Map<string, LpSection>([
+  ['minimize', 'minimize'],
+  ['minimum', 'minimize'],
+  ['min', 'minimize'],
+  ['maximize', 'maximize'],
+  ['maximum', 'maximize'],
+  ['max', 'maximize'],
+  ['subject to', 'constraints'],
+  ['such that', 'constraints'],
+  ['st', 'constraints'],
+  ['s.t.', 'constraints'],
+  ['bounds', 'bounds'],
+  ['bound', 'bounds'],
+  ['general', 'generals'],
+  ['generals', 'generals'],
+  ['gen', 'generals'],
+  ['binary', 'binaries'],
+  ['binaries', 'binaries'],
+  ['bin', 'binaries'],
+  ['end', 'end'],
+]);
+
+const unsupportedLpSections = new Set([
+  'semi-continuous',
+  'semis',
+  'semi',
+  'sos',
+]);
+
+interface LpToken {
+  readonly kind: 'operator' | 'sign' | 'colon' | 'number' | 'name';
+  readonly value: string;
+  readonly line: number;
+}
+
+const LP_TOKEN_PATTERN =
+  /\s*(?:(=[<>]|[<>]=?|=)|([+-])|(:)|((?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)|([^\s:+\-<>=]+))/y;
+
+const INFINITY_PATTERN = /^inf(inity)?$/i;
+
+function parseLp(text: string): LinearModel {
+  const builder = new ModelBuilder();
+  const blocks: {section: LpSection; tokens: LpToken[]}[] = [];
+  for (const [ix, rawLine] of text.split(/\r?\n/).entries()) {
+    const lineNumber = ix + 1;
+    const line = rawLine.replace(/\\.*$/, '').trim();
+    if (!line) {
+      continue;
+    }
+    const keyword = line.toLowerCase().replace(/\s+/g, ' ');
+    const section = lpSections.get(keyword);
+    if (section) {
+      blocks.push({section, tokens: []});
+      continue;
+    }
+    if (unsupportedLpSections.has(keyword)) {
+      throw clientErrors.invalidModel('lp', lineNumber, `${line} unsupported`);
+    }
+    const block = blocks[blocks.length - 1];
+    if (!block || block.section === 'end') {
+      throw clientErrors.invalidModel('lp', lineNumber, 'Unexpected content');
+    }
+    block.tokens.push(...lpTokens(line, lineNumber));
+  }
+
+  for (const {section, tokens} of blocks) {
+    const cursor = new LpCursor(tokens);
+    switch (section) {
+      case 'minimize':
+      case 'maximize': {
+        builder.isMaximization = section === 'maximize';
+        const name = cursor.label();
+        if (name != null) {
+          builder.objectiveName = name;
+        }
+        builder.constant += parseLpExpression(
+          cursor,
+          builder,
+          builder.objective
+        );
+        if (!cursor.done()) {
+          throw cursor.unexpected();
+        }
+        break;
+      }
+      case 'constraints':
+        while (!cursor.done()) {
+          parseLpConstraint(cursor, builder);
+        }
+        break;
+      case 'bounds':
+        while (!cursor.done()) {
+          parseLpBound(cursor, builder);
+        }
+        break;
+      case 'generals':
+      case 'binaries':
+        while (!cursor.done()) {
+          const vr = builder.variable(cursor.expect('name').value);
+          vr.integral = true;
+          if (section === 'binaries') {
+            vr.lowerBound = 0;
+            vr.upperBound = 1;
+          }
+        }
+        break;
+    }
+  }
+  return builder.build();
+}
+
+function lpTokens(line: string, lineNumber: number): LpToken[] {
+  const tokens: LpToken[] = [];
+  LP_TOKEN_PATTERN.lastIndex = 0;
+  while (LP_TOKEN_PATTERN.lastIndex < line.length) {
+    const match = LP_TOKEN_PATTERN.exec(line);
+    if (!match) {
+      throw clientErrors.invalidModel('lp', lineNumber, 'Unexpected character');
+    }
+    const [, operator, sign, colon, num, name] = match;
+    const kind = operator
+      ? 'operator'
+      : sign
+        ? 'sign'
+        : colon
+          ? 'colon'
+          : num
+            ? 'number'
+            : 'name';
+    tokens.push({
+      kind,
+      value: (operator ?? sign ?? colon ?? num ?? name)!,
+      line: lineNumber,
+    });
+  }
+  return tokens;
+}
+
+class LpCursor {
+  private index = 0;
+  constructor(private readonly tokens: ReadonlyArray<LpToken>) {}
+
+  done(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  peek(offset = 0): LpToken | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  next(): LpToken {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      const last = this.tokens[this.tokens.length - 1];
+      throw clientErrors.invalidModel('lp', last?.line ?? 0, 'Unexpected end');
+    }
+    return token;
+  }
+
+  expect(kind: LpToken['kind']): LpToken {
+    const token = this.next();
+    if (token.kind !== kind) {
+      this.index--;
+      throw this.unexpected();
+    }
+    return token;
+  }
+
+  /** Consumes a leading `name:` label, if any. */
+  label(): string | undefined {
+    if (this.peek()?.kind !== 'name' || this.peek(1)?.kind !== 'colon') {
+      return undefined;
+    }
+    const {value} = this.next();
+    this.next();
+    return value;
+  }
+
+  /** Returns true if the upcoming tokens are a number followed by `kind`. */
+  isNumberFollowedBy(kind: LpToken['kind']): boolean {
+    let offset = 0;
+    while (this.peek(offset)?.kind === 'sign') {
+      offset++;
+    }
+    const token = this.peek(offset);
+    return (
+      !!token &&
+      (token.kind === 'number' || INFINITY_PATTERN.test(token.value)) &&
+      this.peek(offset + 1)?.kind === kind
+    );
+  }
+
+  number(): number {
+    let sign = 1;
+    while (this.peek()?.kind === 'sign') {
+      if (this.next().value === '-') {
+        sign = -sign;
+      }
+    }
+    const token = this.next();
+    if (token.kind === 'number') {
+      return sign * Number(token.value);
+    }
+    if (token.kind === 'name' && INFINITY_PATTERN.test(token.value)) {
+      return sign * Infinity;
+    }
+    this.index--;
+    throw this.unexpected();
+  }
+
+  unexpected(): Error {
+    const token = this.peek() ?? this.tokens[this.tokens.length - 1];
+    return clientErrors.invalidModel(
+      'lp',
+      token?.line ?? 0,
+      token ? `Unexpected token ${token.value}` : 'Unexpected end'
+    );
+  }
+}
+
+/** Adds terms until the next operator, returning the constant part. */
+function parseLpExpression(
+  cursor: LpCursor,
+  builder: ModelBuilder,
+  terms: Map<string, number>
+): number {
+  let constant = 0;
+  while (!cursor.done() && cursor.peek()!.kind !== 'operator') {
+    let sign = 1;
+    while (cursor.peek()?.kind === 'sign') {
+      if (cursor.next().value === '-') {
+        sign = -sign;
+      }
+    }
+    const token = cursor.next();
+    if (token.kind === 'number') {
+      const coef = sign * Number(token.value);
+      if (cursor.peek()?.kind === 'name' && cursor.peek(1)?.kind !== 'colon') {
+        builder.addTerm(terms, cursor.next().value, coef);
+      } else {
+        constant += coef;
+      }
+    } else if (token.kind === 'name') {
+      builder.addTerm(terms, token.value, sign);
+    } else {
+      throw clientErrors.invalidModel(
+        'lp',
+        token.line,
+        `Unexpected token ${token.value}`
+      );
+    }
+  }
+  return constant;
+}
+
+function parseLpConstraint(cursor: LpCursor, builder: ModelBuilder): void {
+  const name = cursor.label() ?? builder.freshConstraintName();
+  const cs = builder.constraint(name);
+  if (cursor.isNumberFollowedBy('operator')) {
+    // Ranged constraint, for example `-1 <= x + y <= 1`.
+    const lhs = cursor.number();
+    const op = cursor.expect('operator').value;
+    const constant = parseLpExpression(cursor, builder, cs.terms);
+    applyBound(cs, flipOperator(op), lhs - constant);
+    const rop = cursor.expect('operator').value;
+    applyBound(cs, rop, cursor.number() - constant);
+    return;
+  }
+  const constant = parseLpExpression(cursor, builder, cs.terms);
+  const op = cursor.expect('operator').value;
+  applyBound(cs, op, cursor.number() - constant);
+}
+
+function parseLpBound(cursor: LpCursor, builder: ModelBuilder): void {
+  if (
+    cursor.peek()?.kind === 'name' &&
+    !cursor.isNumberFollowedBy('operator')
+  ) {
+    const vr = builder.variable(cursor.next().value);
+    if (
+      cursor.peek()?.kind === 'name' &&
+      cursor.peek()!.value.toLowerCase() === 'free'
+    ) {
+      cursor.next();
+      vr.lowerBound = -Infinity;
+      vr.upperBound = Infinity;
+      return;
+    }
+    const op = cursor.expect('operator').value;
+    applyBound(vr, op, cursor.number());
+    return;
+  }
+  const lhs = cursor.number();
+  const op = cursor.expect('operator').value;
+  const vr = builder.variable(cursor.expect('name').value);
+  applyBound(vr, flipOperator(op), lhs);
+  if (cursor.peek()?.kind === 'operator') {
+    const rop = cursor.next().value;
+    applyBound(vr, rop, cursor.number());
+  }
+}
+
+/** Applies `<expression> <op> <val>` to the bounds. */
+function applyBound(bounds: MutableBounds, op: string, val: number): void {
+  if (op.includes('<')) {
+    bounds.upperBound = val;
+  } else if (op.includes('>')) {
+    bounds.lowerBound = val;
+  } else {
+    bounds.lowerBound = val;
+    bounds.upperBound = val;
+  }
+}
+
+/** Returns the operator to use when swapping sides. */
+function flipOperator(op: string): string {
+  return op.includes('<')
+    ? op.replace('<', '>')
+    : op.includes('>')
+      ? op.replace('>', '<')
+      : op;
+}
+
+/** Maximum number of terms per LP line. */
+const LP_LINE_TERMS = 8;
+
+function formatLp(model: LinearModel): string {
+  const {objective} = model;
+  const lines = [objective.isMaximization ? 'Maximize' : 'Minimize'];
+  lines.push(
+    ...lpExpression(
+      `${objective.name ?? 'obj'}:`,
+      objective.terms,
+      objective.constant
+    )
+  );
+  lines.push('Subject To');
+  for (const cs of model.constraints) {
+    const {lowerBound: lb, upperBound: ub} = cs;
+    let prefix = `${cs.name}:`;
+    let suffix;
+    if (lb != null && ub != null) {
+      if (lb === ub) {
+        suffix = `= ${lb}`;
+      } else {
+        prefix += ` ${lb} <=`;
+        suffix = `<= ${ub}`;
+      }
+    } else if (lb != null) {
+      suffix = `>= ${lb}`;
+    } else if (ub != null) {
+      suffix = `<= ${ub}`;
+    } else {
+      suffix = '>= -inf';
+    }
+    const exprLines = lpExpression(prefix, cs.terms);
+    exprLines[exprLines.length - 1] += ' ' + suffix;
+    lines.push(...exprLines);
+  }
+  const bounds: string[] = [];
+  const generals: string[] = [];
+  for (const vr of model.variables) {
+    const {name, lowerBound: lb, upperBound: ub} = vr;
+    if (vr.integral) {
+      generals.push(name);
+    }
+    if (lb == null && ub == null) {
+      bounds.push(` ${name} free`);
+    } else if (lb === ub) {
+      bounds.push(` ${name} = ${lb}`);
+    } else if (ub == null) {
+      if (lb !== 0) {
+        bounds.push(` ${name} >= ${lb}`);
+      }
+    } else {
+      bounds.push(` ${lb ?? '-inf'} <= ${name} <= ${ub}`);
+    }
+  }
+  if (bounds.length) {
+    lines.push('Bounds', ...bounds);
+  }
+  if (generals.length) {
+    lines.push('Generals');
+    for (let ix = 0; ix < generals.length; ix += LP_LINE_TERMS) {
+      lines.push(' ' + generals.slice(ix, ix + LP_LINE_TERMS).join(' '));
+    }
+  }
+  lines.push('End', '');
+  return lines.join('\n');
+}
+
+function lpExpression(
+  prefix: string,
+  terms: LinearTerms,
+  constant?: number
+): string[] {
+  const parts: string[] = [];
+  for (const [name, coef] of Object.entries(terms)) {
+    const sign = coef < 0 ? '-' : '+';
+    const abs = Math.abs(coef);
+    parts.push(`${sign} ${abs === 1 ? '' : abs + ' '}${name}`);
+  }
+  if (constant) {
+    parts.push(`${constant < 0 ? '-' : '+'} ${Math.abs(constant)}`);
+  }
+  if (!parts.length) {
+    parts.push('0');
+  }
+  const lines: string[] = [];
+  for (let ix = 0; ix < parts.length; ix += LP_LINE_TERMS) {
+    let chunk = parts.slice(ix, ix + LP_LINE_TERMS).join(' ');
+    if (!ix && chunk.startsWith('+ ')) {
+      chunk = chunk.slice(2);
+    }
+    lines.push(ix ? '   ' + chunk : ` ${prefix} ${chunk}`);
+  }
+  return lines;
+}
+
+// MPS format
+
+type MpsSection =
+  | 'NAME'
+  | 'OBJSENSE'
+  | 'ROWS'
+  | 'COLUMNS'
+  | 'RHS'
+  | 'RANGES'
+  | 'BOUNDS'
+  | 'ENDATA';
+
+const mpsSections = new Set<string>([
+  'NAME',
+  'OBJSENSE',
+  'ROWS',
+  'COLUMNS',
+  'RHS',
+  'RANGES',
+  'BOUNDS',
+  'ENDATA',
+]);
+
+const MPS_OBJECTIVE_ROW = 'obj';
+
+function parseMps(text: string): LinearModel {
+  const builder = new ModelBuilder();
+  const rowTypes = new Map<string, string>();
+  const rhs = new Map<string, number>();
+  const ranges = new Map<string, number>();
+  let section: MpsSection | undefined;
+  let objectiveRow: string | undefined;
+  let integral = false;
+
+  for (const [ix, rawLine] of text.split(/\r?\n/).entries()) {
+    const lineNumber = ix + 1;
+    if (!rawLine.trim() || rawLine.startsWith('*')) {
+      continue;
+    }
+    const tokens = rawLine.trim().split(/\s+/);
+    const fail = (reason: string): Error =>
+      clientErrors.invalidModel('mps', lineNumber, reason);
+    const num = (token: string | undefined): number => {
+      const val = Number(token);
+      if (token == null || isNaN(val)) {
+        throw fail(`Invalid number ${token}`);
+      }
+      return val;
+    };
+
+    if (!/^\s/.test(rawLine) && mpsSections.has(tokens[0]!)) {
+      section = tokens[0] as MpsSection;
+      if (section === 'OBJSENSE' && tokens[1]) {
+        builder.isMaximization = tokens[1].startsWith('MAX');
+      }
+      continue;
+    }
+    switch (section) {
+      case 'OBJSENSE':
+        builder.isMaximization = tokens[0]!.startsWith('MAX');
+        break;
+      case 'ROWS': {
+        const [type, name] = tokens;
+        if (!type || !name || !/^[NLGE]$/.test(type)) {
+          throw fail('Invalid row');
+        }
+        if (type === 'N' && objectiveRow == null) {
+          objectiveRow = name;
+          builder.objectiveName = name;
+          break;
+        }
+        rowTypes.set(name, type);
+        builder.constraint(name);
+        break;
+      }
+      case 'COLUMNS': {
+        if (tokens[1] === '\'MARKER\'') {
+          integral = tokens[2] === '\'INTORG\'';
+          break;
+        }
+        const [column, ...pairs] = tokens;
+        const vr = builder.variable(column!);
+        if (integral) {
+          vr.integral = true;
+        }
+        for (let pix = 0; pix < pairs.length; pix += 2) {
+          const row = pairs[pix]!;
+          const coef = num(pairs[pix + 1]);
+          if (!coef) {
+            continue;
+          }
+          if (row === objectiveRow) {
+            builder.addTerm(builder.objective, column!, coef);
+          } else if (rowTypes.has(row)) {
+            builder.addTerm(builder.constraint(row).terms, column!, coef);
+          } else {
+            throw fail(`Unknown row ${row}`);
+          }
+        }
+        break;
+      }
+      case 'RHS':
+      case 'RANGES': {
+        // The set name is optional, pairs always have an even length.
+        const pairs = tokens.length % 2 ? tokens.slice(1) : tokens;
+        for (let pix = 0; pix < pairs.length; pix += 2) {
+          const row = pairs[pix]!;
+          const val = num(pairs[pix + 1]);
+          if (section === 'RHS' && row === objectiveRow) {
+            builder.constant = -val;
+          } else if (rowTypes.has(row)) {
+            (section === 'RHS' ? rhs : ranges).set(row, val);
+          } else {
+            throw fail(`Unknown row ${row}`);
+          }
+        }
+        break;
+      }
+      case 'BOUNDS': {
+        const [type, ...rest] = tokens;
+        const valued = !/^(FR|MI|PL|BV)$/.test(type!);
+        // The bound set name is optional.
+        const args = rest.length > (valued ? 2 : 1) ? rest.slice(1) : rest;
+        const vr = builder.variable(args[0]!);
+        const val = valued ? num(args[1]) : 0;
+        switch (type) {
+          case 'UP':
+          case 'UI':
+            if (val < 0 && vr.lowerBound === 0) {
+              vr.lowerBound = -Infinity;
+            }
+            vr.upperBound = val;
+            break;
+          case 'LO':
+          case 'LI':
+            vr.lowerBound = val;
+            break;
+          case 'FX':
+            vr.lowerBound = val;
+            vr.upperBound = val;
+            break;
+          case 'FR':
+            vr.lowerBound = -Infinity;
+            vr.upperBound = Infinity;
+            break;
+          case 'MI':
+            vr.lowerBound = -Infinity;
+            break;
+          case 'PL':
+            vr.upperBound = Infinity;
+            break;
+          case 'BV':
+            vr.lowerBound = 0;
+            vr.upperBound = 1;
+            break;
+          default:
+            throw fail(`Unsupported bound type ${type}`);
+        }
+        if (type === 'BV' || type === 'UI' || type === 'LI') {
+          vr.integral = true;
+        }
+        break;
+      }
+      case 'NAME':
+      case 'ENDATA':
+      case undefined:
+        throw fail('Unexpected content');
+    }
+  }
+
+  for (const [row, type] of rowTypes) {
+    const cs = builder.constraint(row);
+    const val = rhs.get(row) ?? 0;
+    const range = ranges.get(row);
+    switch (type) {
+      case 'L':
+        cs.upperBound = val;
+        if (range != null) {
+          cs.lowerBound = val - Math.abs(range);
+        }
+        break;
+      case 'G':
+        cs.lowerBound = val;
+        if (range != null) {
+          cs.upperBound = val + Math.abs(range);
+        }
+        break;
+      case 'E':
+        cs.lowerBound = range != null && range < 0 ? val + range : val;
+        cs.upperBound = range != null && range > 0 ? val + range : val;
+        break;
+    }
+  }
+  return builder.build();
+}
+
+function formatMps(model: LinearModel): string {
+  const {objective} = model;
+  const objectiveRow = objective.name ?? MPS_OBJECTIVE_ROW;
+  const lines = ['NAME'];
+  if (objective.isMaximization) {
+    lines.push('OBJSENSE', '    MAX');
+  }
+
+  lines.push('ROWS', ` N  ${objectiveRow}`);
+  const columns = new Map<string, [string, number][]>(
+    model.variables.map((v) => [v.name, []])
+  );
+  for (const [name, coef] of Object.entries(objective.terms)) {
+    columns.get(name)?.push([objectiveRow, coef]);
+  }
+  const rhs: [string, number][] = [];
+  const ranges: [string, number][] = [];
+  if (objective.constant) {
+    rhs.push([objectiveRow, -objective.constant]);
+  }
+  for (const cs of model.constraints) {
+    const {name, lowerBound: lb, upperBound: ub} = cs;
+    let type;
+    if (lb != null && ub != null) {
+      type = lb === ub ? 'E' : 'G';
+      if (lb !== ub) {
+        ranges.push([name, ub - lb]);
+      }
+    } else {
+      type = lb != null ? 'G' : ub != null ? 'L' : 'N';
+    }
+    lines.push(` ${type}  ${name}`);
+    const val = lb ?? ub;
+    if (val) {
+      rhs.push([name, val]);
+    }
+    for (const [vname, coef] of Object.entries(cs.terms)) {
+      columns.get(vname)?.push([name, coef]);
+    }
+  }
+
+  lines.push('COLUMNS');
+  let integral = false;
+  let markers = 0;
+  for (const vr of model.variables) {
+    if (!!vr.integral !== integral) {
+      integral = !integral;
+      const marker = integral ? 'INTORG' : 'INTEND';
+      lines.push(`    MARKER${markers++} 'MARKER' '${marker}'`);
+    }
+    const coefs = columns.get(vr.name)!;
+    if (!coefs.length) {
+      // Columns must appear in this section to be declared, zero coefficients
+      // are otherwise ignored.
+      coefs.push([objectiveRow, 0]);
+    }
+    for (const [row, coef] of coefs) {
+      lines.push(`    ${vr.name}  ${row}  ${coef}`);
+    }
+  }
+  if (integral) {
+    lines.push(`    MARKER${markers} 'MARKER' 'INTEND'`);
+  }
+
+  if (rhs.length) {
+    lines.push('RHS');
+    for (const [row, val] of rhs) {
+      lines.push(`    RHS  ${row}  ${val}`);
+    }
+  }
+  if (ranges.length) {
+    lines.push('RANGES');
+    for (const [row, val] of ranges) {
+      lines.push(`    RNG  ${row}  ${val}`);
+    }
+  }
+
+  const bounds: string[] = [];
+  for (const vr of model.variables) {
+    const {name, lowerBound: lb, upperBound: ub} = vr;
+    if (lb == null && ub == null) {
+      bounds.push(` FR BND  ${name}`);
+    } else if (lb === ub) {
+      bounds.push(` FX BND  ${name}  ${lb}`);
+    } else {
+      // Upper bounds come first since negative ones also reset lower bounds.
+      if (ub != null) {
+        bounds.push(` UP BND  ${name}  ${ub}`);
+      } else if (vr.integral) {
+        // Some solvers otherwise default integer columns' upper bound to 1.
+        bounds.push(` PL BND  ${name}`);
+      }
+      if (lb == null) {
+        bounds.push(` MI BND  ${name}`);
+      } else if (lb !== 0 || (ub != null && ub < 0)) {
+        bounds.push(` LO BND  ${name}  ${lb}`);
+      }
+    }
+  }
+  if (bounds.length) {
+    lines.push('BOUNDS', ...bounds);
+  }
+  lines.push('ENDATA', '');
+  return lines.join('\n');
+}
+
+// JSON format
+
+function parseJsonModel(text: string): LinearModel {
+  const fail = (reason: string): Error =>
+    clientErrors.invalidModel('json', undefined, reason);
+  let model;
+  try {
+    model = JSON.parse(text);
+  } catch (err) {
+    throw fail(String(err));
+  }
+  if (!isRecord(model)) {
+    throw fail('Model is not an object');
+  }
+  const {objective, variables, constraints} = model;
+  if (
+    !isRecord(objective) ||
+    typeof objective.isMaximization != 'boolean' ||
+    !isLinearTerms(objective.terms) ||
+    !isOptional(objective.name, 'string') ||
+    !isOptional(objective.constant, 'number')
+  ) {
+    throw fail('Invalid objective');
+  }
+  if (!Array.isArray(variables)) {
+    throw fail('Missing variables');
+  }
+  for (const [ix, vr] of variables.entries()) {
+    if (
+      !isRecord(vr) ||
+      typeof vr.name != 'string' ||
+      !isOptional(vr.lowerBound, 'number') ||
+      !isOptional(vr.upperBound, 'number') ||
+      !isOptional(vr.integral, 'boolean')
+    ) {
+      throw fail(`Invalid variable at index ${ix}`);
+    }
+  }
+  if (!Array.isArray(constraints)) {
+    throw fail('Missing constraints');
+  }
+  for (const [ix, cs] of constraints.entries()) {
+    if (
+      !isRecord(cs) ||
+      typeof cs.name != 'string' ||
+      !isLinearTerms(cs.terms) ||
+      !isOptional(cs.lowerBound, 'number') ||
+      !isOptional(cs.upperBound, 'number')
+    ) {
+      throw fail(`Invalid constraint at index ${ix}`);
+    }
+  }
+  return model as unknown as LinearModel;
+}
+
+function isOptional(
+  val: unknown,
+  type: 'boolean' | 'number' | 'string'
+): boolean {
+  return val === undefined || typeof val == type;
+}
+
+function isLinearTerms(val: unknown): val is LinearTerms {
+  return isRecord(val) && Object.values(val).every((c) => typeof c == 'number');
+}
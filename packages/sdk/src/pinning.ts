@@ -0,0 +1,198 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as api from '@opvious/api';
+
+import {ProblemEntry} from './builder.js';
+import {clientErrors} from './client/common.js';
+import {OpviousClient} from './client/index.js';
+import {KeyItem} from './validation.js';
+
+/** Returns the label of the parameter holding a pinned variable's values. */
+export function pinParameterLabel(variableLabel: string): string {
+  return variableLabel + '_pin';
+}
+
+/** Tensor entries, keyed by tensor label. */
+export interface LabeledEntries {
+  readonly [label: string]: ReadonlyArray<ProblemEntry>;
+}
+
+/**
+ * Returns a new problem where the given variables are pinned to the given
+ * values, via a `pinVariables` transformation and `<label>_pin` parameters.
+ * Pins are merged into any existing ones, overwriting entries with the same
+ * key. Variable entries without a pinned value are left free.
+ */
+export function withPinnedVariables(
+  problem: api.Schema<'Problem'>,
+  pins: LabeledEntries
+): api.Schema<'Problem'> {
+  const labels = Object.keys(pins);
+  if (!labels.length) {
+    return problem;
+  }
+  const transformations = [...(problem.transformations ?? [])];
+  const pinIx = transformations.findIndex((t) => t.kind === 'pinVariables');
+  if (pinIx < 0) {
+    transformations.push({kind: 'pinVariables', labels});
+  } else {
+    const tf = transformations[pinIx] as {readonly labels: string[]};
+    transformations[pinIx] = {
+      kind: 'pinVariables',
+      labels: [...new Set([...tf.labels, ...labels])],
+    };
+  }
+  const params = Object.fromEntries(
+    labels.map((l) => [pinParameterLabel(l), pins[l]!])
+  );
+  return {...withMergedParameters(problem, params), transformations};
+}
+
+/**
+ * Returns a new problem with the given values merged into parameters. This
+ * can be used to pass hints (for example from a previous solve) to
+ * formulations with a parameter dedicated to them. Entries with the same key
+ * are overwritten.
+ */
+export function withMergedParameters(
+  problem: api.Schema<'Problem'>,
+  values: LabeledEntries
+): api.Schema<'Problem'> {
+  const parameters = new Map(
+    problem.inputs.parameters.map((p) => [p.label, p])
+  );
+  for (const [label, entries] of Object.entries(values)) {
+    const merged = new Map<string, api.Schema<'TensorEntry'>>();
+    const param = parameters.get(label);
+    for (const entry of param?.entries ?? []) {
+      merged.set(JSON.stringify(entry.key), entry);
+    }
+    for (const entry of entries) {
+      merged.set(JSON.stringify(entry.key), {
+        key: [...entry.key],
+        value: entry.value,
+      });
+    }
+    parameters.set(label, {
+      label,
+      entries: [...merged.values()],
+      defaultValue: param?.defaultValue,
+    });
+  }
+  return {
+    ...problem,
+    inputs: {...problem.inputs, parameters: [...parameters.values()]},
+  };
+}
+
+/** Selection of entries from previous outputs. */
+export interface OutputSelection {
+  /** Labels of variables to select. Defaults to all variables. */
+  readonly labels?: ReadonlyArray<string>;
+
+  /** Predicate used to select individual entries. Defaults to all entries. */
+  readonly filter?: (
+    label: string,
+    key: ReadonlyArray<KeyItem>,
+    value: number
+  ) => boolean;
+}
+
+/** Returns the selected variable entries from previous outputs. */
+export function selectOutputs(
+  outputs: api.Schema<'SolveOutputs'>,
+  selection?: OutputSelection
+): LabeledEntries {
+  const labels = selection?.labels ? new Set(selection.labels) : undefined;
+  const filter = selection?.filter;
+  const values: {[label: string]: ProblemEntry[]} = {};
+  for (const tsr of outputs.variables) {
+    if (labels && !labels.has(tsr.label)) {
+      continue;
+    }
+    values[tsr.label] = tsr.entries.filter(
+      (e) => !filter || filter(tsr.label, e.key, e.value)
+    );
+  }
+  return values;
+}
+
+/**
+ * Returns a new problem with variables pinned to their values in previous
+ * outputs. Outputs usually omit zero-valued entries, these are pinned to zero
+ * via the pin parameters' default value unless `pinMissingToZero` is false.
+ * This option defaults to false when a filter is set, since entries it rejects
+ * would otherwise also be pinned to zero.
+ */
+export function pinVariablesFromOutputs(
+  problem: api.Schema<'Problem'>,
+  outputs: api.Schema<'SolveOutputs'>,
+  selection?: OutputSelection & {readonly pinMissingToZero?: boolean}
+): api.Schema<'Problem'> {
+  const pins = selectOutputs(outputs, selection);
+  const pinned = withPinnedVariables(problem, pins);
+  if (!(selection?.pinMissingToZero ?? !selection?.filter)) {
+    return pinned;
+  }
+  const labels = new Set(Object.keys(pins).map(pinParameterLabel));
+  const parameters = pinned.inputs.parameters.map((p) =>
+    labels.has(p.label) ? {...p, defaultValue: 0} : p
+  );
+  return {...pinned, inputs: {...pinned.inputs, parameters}};
+}
+
+/**
+ * Returns a new problem with variables' values from previous outputs merged
+ * into hint parameters. `parameters` maps each variable label to its hint
+ * parameter's label, only variables present in it are selected.
+ */
+export function hintVariablesFromOutputs(
+  problem: api.Schema<'Problem'>,
+  outputs: api.Schema<'SolveOutputs'>,
+  opts: Omit<OutputSelection, 'labels'> & {
+    readonly parameters: {readonly [variableLabel: string]: string};
+  }
+): api.Schema<'Problem'> {
+  const selected = selectOutputs(outputs, {
+    labels: Object.keys(opts.parameters),
+    filter: opts.filter,
+  });
+  const hints = Object.fromEntries(
+    Object.entries(selected).map(([label, entries]) => [
+      opts.parameters[label]!,
+      entries,
+    ])
+  );
+  return withMergedParameters(problem, hints);
+}
+
+/**
+ * Fetches a queued solve's outputs, for use with the above helpers. Throws if
+ * the solve did not produce outputs (for example because it is still pending
+ * or was infeasible).
+ */
+export async function fetchPriorOutputs(
+  client: OpviousClient,
+  uuid: string
+): Promise<api.Schema<'SolveOutputs'>> {
+  const outputs = await client.fetchSolveOutputs(uuid);
+  if (!outputs) {
+    throw clientErrors.missingSolveOutputs(uuid);
+  }
+  return outputs;
+}
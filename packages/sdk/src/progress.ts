@@ -0,0 +1,191 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as api from '@opvious/api';
+
+import {QueuedSolveTracker} from './client/index.js';
+import {SolveTracker} from './solves.js';
+
+/** Solver progress at a point in time. */
+export interface ProgressSample {
+  /** Milliseconds since the start of the solve. */
+  readonly elapsedMillis: number;
+  /** Absent until a feasible solution is found (the gap is then infinite). */
+  readonly relativeGap?: number;
+  readonly cutCount?: number;
+  readonly lpIterationCount?: number;
+}
+
+/** Queued solve notification fields used to record progress. */
+export type ProgressNotification = Pick<
+  api.graphqlTypes.FullSolveNotificationFragment,
+  'effectiveAt' | 'relativeGap' | 'cutCount' | 'lpIterationCount'
+>;
+
+/** Point of the gap curve. */
+export interface GapPoint {
+  readonly elapsedMillis: number;
+  readonly relativeGap: number;
+}
+
+/** Summary statistics of a solve's progress. */
+export interface ProgressSummary {
+  readonly sampleCount: number;
+  /** Elapsed time of the last sample, 0 if there are none. */
+  readonly durationMillis: number;
+  /** Elapsed time of the first sample with a finite gap. */
+  readonly timeToFirstFeasibleMillis?: number;
+  readonly finalRelativeGap?: number;
+  readonly finalCutCount?: number;
+  readonly finalLpIterationCount?: number;
+  /** Samples where the gap improved, in chronological order. */
+  readonly gapCurve: ReadonlyArray<GapPoint>;
+}
+
+/**
+ * Collects the timeline of progress reported by a solve. Inline solves'
+ * progress is recorded as it is received, queued solves' from their
+ * notifications' effective times.
+ */
+export class ProgressRecorder {
+  private readonly recorded: ProgressSample[] = [];
+  private startedAt: number | undefined;
+
+  /**
+   * Elapsed times are measured from `startedAt` (epoch milliseconds), which is
+   * overridden by `trackQueued`. It defaults to the time `track` is called or,
+   * failing that, to the first recorded progress' time.
+   */
+  constructor(opts?: {readonly startedAt?: number}) {
+    this.startedAt = opts?.startedAt;
+  }
+
+  /** Records all progress emitted by an inline solve's tracker. */
+  track(tracker: SolveTracker): this {
+    this.startedAt ??= Date.now();
+    tracker.on('solving', (progress) => void this.recordProgress(progress));
+    return this;
+  }
+
+  /**
+   * Records all notifications emitted by a queued solve's tracker. Since the
+   * solve may have started well before it is tracked, its start time (epoch
+   * milliseconds, for example its attempt's `startedAt`) must be provided.
+   */
+  trackQueued(tracker: QueuedSolveTracker, startedAt: number): this {
+    this.startedAt = startedAt;
+    tracker.on('notification', (notif) => void this.recordNotification(notif));
+    return this;
+  }
+
+  /**
+   * Records progress from an inline solve, for example from `solve`'s
+   * `onProgress` option. Non-activity progress is ignored.
+   */
+  recordProgress(progress: api.Schema<'SolveProgress'>, at = Date.now()): void {
+    this.startedAt ??= at;
+    if (progress.kind !== 'activity') {
+      return;
+    }
+    this.record(at, {
+      relativeGap: finiteGap(progress.relativeGap),
+      cutCount: progress.cutCount,
+      lpIterationCount: progress.lpIterationCount,
+    });
+  }
+
+  /** Records a queued solve's notification. */
+  recordNotification(notif: ProgressNotification): void {
+    this.record(Date.parse(notif.effectiveAt), {
+      relativeGap: finiteGap(notif.relativeGap),
+      cutCount: notif.cutCount ?? undefined,
+      lpIterationCount: notif.lpIterationCount ?? undefined,
+    });
+  }
+
+  /** All samples, in chronological order. */
+  samples(): ReadonlyArray<ProgressSample> {
+    return this.recorded;
+  }
+
+  summary(): ProgressSummary {
+    const samples = this.recorded;
+    const last = samples[samples.length - 1];
+    const gapCurve: GapPoint[] = [];
+    for (const {elapsedMillis, relativeGap} of samples) {
+      const prev = gapCurve[gapCurve.length - 1];
+      if (relativeGap != null && (!prev || relativeGap < prev.relativeGap)) {
+        gapCurve.push({elapsedMillis, relativeGap});
+      }
+    }
+    return {
+      sampleCount: samples.length,
+      durationMillis: last?.elapsedMillis ?? 0,
+      timeToFirstFeasibleMillis: gapCurve[0]?.elapsedMillis,
+      finalRelativeGap: last?.relativeGap,
+      finalCutCount: last?.cutCount,
+      finalLpIterationCount: last?.lpIterationCount,
+      gapCurve,
+    };
+  }
+
+  /** Exports samples as CSV, with one row per sample. */
+  toCsv(): string {
+    const lines = ['elapsed_millis,relative_gap,cut_count,lp_iteration_count'];
+    for (const sample of this.recorded) {
+      lines.push(
+        [
+          sample.elapsedMillis,
+          sample.relativeGap,
+          sample.cutCount,
+          sample.lpIterationCount,
+        ]
+          .map((v) => v ?? '')
+          .join(',')
+      );
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /** Exports the summary and samples as JSON. */
+  toJson(): string {
+    return JSON.stringify(
+      {summary: this.summary(), samples: this.recorded},
+      null,
+      2
+    );
+  }
+
+  private record(
+    at: number,
+    sample: Omit<ProgressSample, 'elapsedMillis'>
+  ): void {
+    this.startedAt ??= at;
+    const elapsedMillis = Math.max(0, at - this.startedAt);
+    this.recorded.push({elapsedMillis, ...sample});
+  }
+}
+
+function finiteGap(
+  gap: api.Schema<'ExtendedFloat'> | null | undefined
+): number | undefined {
+  if (gap == null) {
+    return undefined;
+  }
+  const val = +gap;
+  return isFinite(val) ? val : undefined;
+}
@@ -0,0 +1,206 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as api from '@opvious/api';
+
+import {clientErrors} from './client/common.js';
+import {KeyItem} from './validation.js';
+
+export type ResultKind = 'variable' | 'constraint' | 'derived';
+
+/** Single tensor entry. */
+export interface ResultEntry {
+  readonly key: ReadonlyArray<KeyItem>;
+  readonly value: number;
+}
+
+/** Flattened tensor entry, suitable for tabular exports. */
+export interface ResultRecord extends ResultEntry {
+  readonly label: string;
+  readonly kind: ResultKind;
+}
+
+/** Dense tensor representation, nested once per key item. */
+export type DenseTensor = number | ReadonlyArray<DenseTensor>;
+
+/** Values with absolute value below this threshold are considered zero. */
+const EPSILON = 1e-6;
+
+/**
+ * Solve outcome and outputs, with results indexed by label and key. Entries
+ * missing from the outputs have value 0.
+ */
+export class SolveResult {
+  private constructor(
+    /** The solve's outcome. */
+    readonly outcome: api.Schema<'SolveOutcome'>,
+    private readonly tensors: ReadonlyMap<string, IndexedTensor>
+  ) {}
+
+  /**
+   * Creates a new result. Outputs can be obtained from `runSolve`'s `solved`
+   * event or from `fetchSolveOutputs`, they will be missing for infeasible
+   * solves. Derived values (for example derived parameters from
+   * `fetchSolveInputs`) can optionally be indexed alongside outputs.
+   */
+  static create(
+    outcome: api.Schema<'SolveOutcome'>,
+    outputs?: api.Schema<'SolveOutputs'>,
+    opts?: {
+      readonly derived?: ReadonlyArray<api.Schema<'TensorResult'>>;
+    }
+  ): SolveResult {
+    const tensors = new Map<string, IndexedTensor>();
+    const add = (
+      kind: ResultKind,
+      results: ReadonlyArray<api.Schema<'TensorResult'>> | undefined
+    ): void => {
+      for (const res of results ?? []) {
+        tensors.set(res.label, new IndexedTensor(kind, res.entries));
+      }
+    };
+    add('variable', outputs?.variables);
+    add('constraint', outputs?.constraints);
+    add('derived', opts?.derived);
+    return new SolveResult(outcome, tensors);
+  }
+
+  /** The solve's status, for example `OPTIMAL`. */
+  get status(): api.Schema<'SolveOutcome'>['status'] {
+    return this.outcome.status;
+  }
+
+  /** The objective value, if any. */
+  get objectiveValue(): api.Schema<'SolveOutcome'>['objectiveValue'] {
+    return this.outcome.objectiveValue;
+  }
+
+  /** Labels of all available results, optionally filtered by kind. */
+  labels(kind?: ResultKind): ReadonlyArray<string> {
+    const labels: string[] = [];
+    for (const [label, tsr] of this.tensors) {
+      if (kind == null || tsr.kind === kind) {
+        labels.push(label);
+      }
+    }
+    return labels;
+  }
+
+  /** Returns true if results with the given label are available. */
+  has(label: string): boolean {
+    return this.tensors.has(label);
+  }
+
+  /** Returns the value for the given label and key, defaulting to 0. */
+  value(label: string, ...key: KeyItem[]): number {
+    return this.tensor(label).value(key);
+  }
+
+  /** Returns all entries with a given label, including zero-valued ones. */
+  entries(label: string): ReadonlyArray<ResultEntry> {
+    return this.tensor(label).entries;
+  }
+
+  /** Returns the keys of all entries with a non-zero value. */
+  nonZero(label: string): ReadonlyArray<ReadonlyArray<KeyItem>> {
+    return this.toSparse(label).map((e) => e.key);
+  }
+
+  /** Returns all entries with a non-zero value. */
+  toSparse(label: string): ReadonlyArray<ResultEntry> {
+    return this.tensor(label).entries.filter(
+      (e) => Math.abs(e.value) >= EPSILON
+    );
+  }
+
+  /**
+   * Returns the tensor's values as nested arrays, one level per key item. By
+   * default each level spans the distinct key items present in its entries
+   * (in order of appearance), explicit items can be passed in via `axes`.
+   */
+  toDense(
+    label: string,
+    axes?: ReadonlyArray<ReadonlyArray<KeyItem>>
+  ): DenseTensor {
+    const tsr = this.tensor(label);
+    const dims = axes ?? tsr.axes();
+    const build = (prefix: KeyItem[]): DenseTensor => {
+      const items = dims[prefix.length];
+      if (!items) {
+        return tsr.value(prefix);
+      }
+      return items.map((item) => build([...prefix, item]));
+    };
+    return build([]);
+  }
+
+  /** Returns all entries as flat records, optionally filtered by label. */
+  toRecords(label?: string): ReadonlyArray<ResultRecord> {
+    const records: ResultRecord[] = [];
+    for (const [lbl, tsr] of this.tensors) {
+      if (label != null && lbl !== label) {
+        continue;
+      }
+      for (const {key, value} of tsr.entries) {
+        records.push({label: lbl, kind: tsr.kind, key, value});
+      }
+    }
+    return records;
+  }
+
+  private tensor(label: string): IndexedTensor {
+    const tsr = this.tensors.get(label);
+    if (!tsr) {
+      throw clientErrors.unknownResult(label);
+    }
+    return tsr;
+  }
+}
+
+class IndexedTensor {
+  private byKey: Map<string, number> | undefined;
+  constructor(
+    readonly kind: ResultKind,
+    readonly entries: ReadonlyArray<ResultEntry>
+  ) {}
+
+  value(key: ReadonlyArray<KeyItem>): number {
+    if (!this.byKey) {
+      this.byKey = new Map(this.entries.map((e) => [keyHash(e.key), e.value]));
+    }
+    return this.byKey.get(keyHash(key)) ?? 0;
+  }
+
+  axes(): ReadonlyArray<ReadonlyArray<KeyItem>> {
+    const axes: Set<KeyItem>[] = [];
+    for (const {key} of this.entries) {
+      for (const [ix, item] of key.entries()) {
+        let axis = axes[ix];
+        if (!axis) {
+          axis = new Set();
+          axes[ix] = axis;
+        }
+        axis.add(item);
+      }
+    }
+    return axes.map((s) => [...s]);
+  }
+}
+
+function keyHash(key: ReadonlyArray<KeyItem>): string {
+  return JSON.stringify(key);
+}
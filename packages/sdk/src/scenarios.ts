@@ -0,0 +1,269 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as api from '@opvious/api';
+import {errors} from '@opvious/stl-errors';
+
+import {SolveBatchResult, startSolveBatch} from './batch.js';
+import {ProblemEntry} from './builder.js';
+import {OpviousClient, SolvedProblem} from './client/index.js';
+import {LabeledEntries, withPinnedVariables} from './pinning.js';
+import {KeyItem} from './validation.js';
+
+/**
+ * Parameter override. Operations are applied in the following order: `replace`,
+ * then `set`, then `scale`.
+ */
+export interface ParameterOverride {
+  /** Replaces all of the parameter's entries. */
+  readonly replace?: ReadonlyArray<ProblemEntry>;
+
+  /** Adds entries, overwriting any existing ones with the same key. */
+  readonly set?: ReadonlyArray<ProblemEntry>;
+
+  /** Multiplies all entries' values (including the default value). */
+  readonly scale?: number;
+
+  /** Replaces the parameter's default value. */
+  readonly defaultValue?: number;
+}
+
+/** Named set of overrides applied to a base problem. */
+export interface Scenario {
+  readonly name: string;
+
+  /** Overrides, keyed by parameter label. */
+  readonly parameters?: {readonly [label: string]: ParameterOverride};
+
+  /** Options merged into the base problem's. */
+  readonly options?: api.Schema<'SolveOptions'>;
+
+  /**
+   * Variable values to pin, keyed by variable label. See `withPinnedVariables`
+   * for details.
+   */
+  readonly pins?: LabeledEntries;
+}
+
+/**
+ * Returns a new problem with the scenario's overrides applied. Overrides must
+ * target parameters present in the base problem.
+ */
+export function applyScenario(
+  base: api.Schema<'Problem'>,
+  scenario: Scenario
+): api.Schema<'Problem'> {
+  const parameters = new Map(base.inputs.parameters.map((p) => [p.label, p]));
+  for (const [label, override] of Object.entries(scenario.parameters ?? {})) {
+    const param = parameters.get(label);
+    if (!param) {
+      throw errors.invalid({
+        message:
+          `Scenario ${scenario.name} overrides parameter ${label} which is ` +
+          'not in the base problem',
+      });
+    }
+    let entries = new Map<string, api.Schema<'TensorEntry'>>();
+    for (const entry of override.replace ? [] : param.entries) {
+      entries.set(keyHash(entry.key), entry);
+    }
+    for (const entry of [
+      ...(override.replace ?? []),
+      ...(override.set ?? []),
+    ]) {
+      entries.set(keyHash(entry.key), {
+        key: [...entry.key],
+        value: entry.value,
+      });
+    }
+    let defaultValue = override.defaultValue ?? param.defaultValue;
+    const {scale} = override;
+    if (scale != null) {
+      entries = new Map(
+        [...entries].map(([hash, e]) => [
+          hash,
+          {key: e.key, value: (e.value ?? 1) * scale},
+        ])
+      );
+      if (defaultValue != null) {
+        defaultValue *= scale;
+      }
+    }
+    parameters.set(label, {
+      label,
+      entries: [...entries.values()],
+      defaultValue,
+    });
+  }
+
+  const problem = {
+    ...base,
+    inputs: {...base.inputs, parameters: [...parameters.values()]},
+    options: scenario.options
+      ? {...base.options, ...scenario.options}
+      : base.options,
+  };
+  return withPinnedVariables(problem, scenario.pins ?? {});
+}
+
+/** Outcome of a single scenario within a sweep. */
+export interface ScenarioResult {
+  readonly name: string;
+  /** Solve status, or `ERROR` if the scenario could not be solved. */
+  readonly status: string;
+  readonly objectiveValue?: number;
+  /** Values of the sweep's selected variables, keyed by label. */
+  readonly variables: {
+    readonly [label: string]: ReadonlyArray<{
+      readonly key: ReadonlyArray<KeyItem>;
+      readonly value: number;
+    }>;
+  };
+  /** Present if the scenario could not be solved. */
+  readonly error?: unknown;
+}
+
+export interface SweepOptions {
+  /**
+   * Queue solves instead of running them inline. Queued solves run
+   * concurrently (see `startSolveBatch`), inline solves one at a time.
+   */
+  readonly queued?: boolean;
+
+  /** Labels of variables whose values are included in results. */
+  readonly variables?: ReadonlyArray<string>;
+
+  /** Maximum number of concurrent queued solves. */
+  readonly concurrency?: number;
+
+  /**
+   * Invoked each time a scenario's result is available. Queued scenarios'
+   * results are reported in the order their solves settle.
+   */
+  readonly onResult?: (result: ScenarioResult) => void;
+}
+
+/**
+ * Solves a base problem under each scenario, returning results in the same
+ * order as the scenarios. Scenarios which fail are reported with an `ERROR`
+ * status rather than failing the sweep.
+ */
+export async function runSweep(
+  client: OpviousClient,
+  base: api.Schema<'Problem'>,
+  scenarios: ReadonlyArray<Scenario>,
+  opts?: SweepOptions
+): Promise<ReadonlyArray<ScenarioResult>> {
+  const problems = scenarios.map((s) => applyScenario(base, s));
+  const labels = opts?.variables ?? [];
+  const results: ScenarioResult[] = new Array(scenarios.length);
+  const collect = (
+    index: number,
+    solved: SolvedProblem | {readonly error: unknown}
+  ): void => {
+    const {name} = scenarios[index]!;
+    const result =
+      'error' in solved
+        ? {name, status: 'ERROR', variables: {}, error: solved.error}
+        : scenarioResult(name, solved, labels);
+    results[index] = result;
+    opts?.onResult?.(result);
+  };
+
+  if (!opts?.queued) {
+    for (const [ix, problem] of problems.entries()) {
+      let solved;
+      try {
+        solved = await client.solve(problem);
+      } catch (error) {
+        collect(ix, {error});
+        continue;
+      }
+      collect(ix, solved);
+    }
+    return results;
+  }
+
+  const collectSettled = async (
+    index: number,
+    res: SolveBatchResult
+  ): Promise<void> => {
+    switch (res.kind) {
+      case 'outcome': {
+        let outputs;
+        try {
+          outputs = labels.length
+            ? await client.fetchSolveOutputs(res.uuid)
+            : undefined;
+        } catch (error) {
+          collect(index, {error});
+          break;
+        }
+        collect(index, {outcome: res.outcome, outputs});
+        break;
+      }
+      case 'failure':
+        collect(index, {error: res.failure});
+        break;
+      case 'error':
+        collect(index, {error: res.error});
+        break;
+      case 'cancelled':
+        collect(index, {error: 'Solve was cancelled'});
+        break;
+    }
+  };
+
+  // Results are collected as each solve settles, not once the whole batch has.
+  const collecting: Promise<void>[] = [];
+  const batch = startSolveBatch(client, problems, {
+    concurrency: opts.concurrency,
+  });
+  batch.on(
+    'settled',
+    (ix, res) => void collecting.push(collectSettled(ix, res))
+  );
+  await batch.summary();
+  await Promise.all(collecting);
+  return results;
+}
+
+function scenarioResult(
+  name: string,
+  solved: SolvedProblem,
+  labels: ReadonlyArray<string>
+): ScenarioResult {
+  const {outcome, outputs} = solved;
+  const tensors = new Map(outputs?.variables.map((v) => [v.label, v]));
+  const variables: {[label: string]: ScenarioResult['variables'][string]} = {};
+  for (const label of labels) {
+    variables[label] = tensors.get(label)?.entries ?? [];
+  }
+  return {
+    name,
+    status: outcome.status,
+    objectiveValue:
+      typeof outcome.objectiveValue == 'number'
+        ? outcome.objectiveValue
+        : undefined,
+    variables,
+  };
+}
+
+function keyHash(key: ReadonlyArray<KeyItem>): string {
+  return JSON.stringify(key);
+}
@@ -19,20 +19,130 @@ import * as api from '@opvious/api';
 import {EventConsumer} from '@opvious/stl-utils/events';
 import {PathLike} from '@opvious/stl-utils/files';
 import {assertCompatible} from 'abaca-openapi';
-import {readFile} from 'fs/promises';
+import {createReadStream} from 'fs';
+import {stat} from 'fs/promises';
 import jp from 'jsonpath';
+import stream from 'stream';
+import {StringDecoder} from 'string_decoder';
+import {fileURLToPath} from 'url';
 import YAML from 'yaml';
+import zlib from 'zlib';
 
+import {loadProblemBundle} from './bundles.js';
+import {OpviousClient} from './client/index.js';
 import {compatibilityPredicates} from './common.js';
+import {JsonStreamParser} from './json.js';
 
+/** Problem loading options. */
+export interface LoadProblemOptions {
+  /** JSONPath to nested problem data. */
+  readonly jsonPath?: string;
+
+  /**
+   * Parse the data incrementally as JSON, without holding its full text in
+   * memory. This is recommended for very large problems. YAML is not supported
+   * in this mode. Defaults to true for data with a `.json` extension
+   * (optionally followed by a compression extension).
+   */
+  readonly streaming?: boolean;
+
+  /**
+   * Client used to fetch problems from URLs, applying its connection options
+   * (for example proxies) and request timeout. Defaults to a client created
+   * from environment variables.
+   */
+  readonly client?: OpviousClient;
+}
+
+/**
+ * Loads a problem from a local path, URL, or standard input (`-`). Local paths
+ * may point to a YAML or JSON file or to a CSV bundle directory (see
+ * `loadProblemBundle`). Data may be compressed with gzip (detected from its
+ * contents) or brotli (detected from a `.br` extension).
+ */
 export async function loadProblem(
   lp: PathLike,
-  opts?: {
-    readonly jsonPath?: string;
-  }
+  opts?: LoadProblemOptions
 ): Promise<api.Schema<'Problem'>> {
-  const str = await readFile(lp, 'utf8');
-  return parseProblem(str, opts);
+  const url = problemUrl(lp);
+  let name: string;
+  let source: AsyncIterable<Buffer>;
+  if (lp === STDIN_PATH) {
+    name = '';
+    source = process.stdin;
+  } else if (url) {
+    name = url.pathname;
+    const client = opts?.client ?? OpviousClient.create();
+    source = await client.fetchProblemData(url);
+  } else {
+    const fp = lp instanceof URL ? fileURLToPath(lp) : '' + lp;
+    if ((await stat(fp)).isDirectory()) {
+      return loadProblemBundle(fp);
+    }
+    name = fp;
+    source = createReadStream(fp);
+  }
+  const chunks = decompressedChunks(source, name);
+
+  let data: unknown;
+  if (opts?.streaming ?? JSON_NAME_PATTERN.test(name)) {
+    const parser = new JsonStreamParser();
+    const decoder = new StringDecoder('utf8');
+    for await (const chunk of chunks) {
+      parser.write(decoder.write(chunk));
+    }
+    parser.write(decoder.end());
+    data = parser.end();
+  } else {
+    const bufs: Buffer[] = [];
+    for await (const chunk of chunks) {
+      bufs.push(chunk);
+    }
+    data = YAML.parse(Buffer.concat(bufs).toString('utf8'));
+  }
+  return problemFromData(data, opts);
+}
+
+const STDIN_PATH = '-';
+
+const JSON_NAME_PATTERN = /\.json(\.(gz|br))?$/;
+
+function problemUrl(lp: PathLike): URL | undefined {
+  const str = '' + lp;
+  return /^https?:\/\//.test(str) ? new URL(str) : undefined;
+}
+
+/** Decompresses chunks if needed, without buffering them. */
+async function* decompressedChunks(
+  source: AsyncIterable<Buffer>,
+  name: string
+): AsyncGenerator<Buffer> {
+  const iter = source[Symbol.asyncIterator]();
+  const first = await iter.next();
+  if (first.done) {
+    return;
+  }
+  const head: Buffer = first.value;
+  const decompressor =
+    head[0] === 0x1f && head[1] === 0x8b
+      ? zlib.createGunzip()
+      : name.endsWith('.br')
+        ? zlib.createBrotliDecompress()
+        : undefined;
+  const rest = (async function* (): AsyncGenerator<Buffer> {
+    yield head;
+    for (let res = await iter.next(); !res.done; res = await iter.next()) {
+      yield res.value;
+    }
+  })();
+  if (!decompressor) {
+    yield* rest;
+    return;
+  }
+  stream.pipeline(stream.Readable.from(rest), decompressor, () => {});
+  for await (const chunk of decompressor) {
+    yield chunk;
+  }
 }
 
 export function parseProblem(
@@ -41,9 +151,15 @@ export function parseProblem(
     readonly jsonPath?: string;
   }
 ): api.Schema<'Problem'> {
-  let data = YAML.parse(str);
+  return problemFromData(YAML.parse(str), opts);
+}
+
+function problemFromData(
+  data: unknown,
+  opts: {readonly jsonPath?: string} | undefined
+): api.Schema<'Problem'> {
   if (opts?.jsonPath) {
-    data = jp.value(data, opts?.jsonPath);
+    data = jp.value(data, opts.jsonPath);
   }
   const {isProblem} = compatibilityPredicates();
   assertCompatible(data, isProblem);
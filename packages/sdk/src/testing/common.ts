@@ -0,0 +1,97 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import {IncomingHttpHeaders} from 'http';
+
+/** Request received by a mock server. */
+export interface MockRequest {
+  /**
+   * Operation name. This is the OpenAPI operation ID for REST requests (e.g.
+   * `queueSolve`) and the operation's name for GraphQL requests (e.g.
+   * `FetchMember`).
+   */
+  readonly operation: string;
+
+  readonly method: string;
+  readonly path: string;
+  readonly headers: IncomingHttpHeaders;
+
+  /** Parsed (and decompressed if needed) JSON body, if any. */
+  readonly body?: unknown;
+
+  /** GraphQL variables, only set for GraphQL requests. */
+  readonly variables?: {readonly [name: string]: unknown};
+}
+
+/** Scripted mock server response. */
+export interface MockResponse {
+  /** Response status, defaults to 200. */
+  readonly status?: number;
+
+  readonly headers?: {readonly [name: string]: string};
+
+  /** JSON body. */
+  readonly data?: unknown;
+
+  /** Plain text body. */
+  readonly text?: string;
+
+  /** JSON text sequence body, for example an inline solve's chunks. */
+  readonly sequence?: ReadonlyArray<unknown>;
+
+  /**
+   * Closes the connection after sending this many sequence elements, to
+   * simulate dropped streams. Only applicable with `sequence`.
+   */
+  readonly dropAfter?: number;
+}
+
+/** Response or function producing a response from the matching request. */
+export type MockResponder =
+  | MockResponse
+  | ((req: MockRequest) => MockResponse | Promise<MockResponse>);
+
+/** GraphQL data or function producing data from the request's variables. */
+export type MockGraphqlResponder =
+  | unknown
+  | ((vars: {readonly [name: string]: unknown}) => unknown);
+
+/** Fault injected in place of a scripted response. */
+export type MockFault =
+  /** Responds with the given status, typically 429 or a 5XX. */
+  | {
+      readonly kind: 'status';
+      readonly status: number;
+      /** Value of the `retry-after` header, in seconds. */
+      readonly retryAfterSeconds?: number;
+    }
+  /** Closes the connection without responding. */
+  | {readonly kind: 'disconnect'}
+  /** Never responds, until the server is closed. */
+  | {readonly kind: 'stall'};
+
+/** Options used when scripting responses and faults. */
+export interface MockScriptOptions {
+  /**
+   * Number of matching requests this script applies to. By default the script
+   * applies to all matching requests.
+   */
+  readonly times?: number;
+}
+
+/** Wildcard operation matching all requests. */
+export const ANY_OPERATION = '*';
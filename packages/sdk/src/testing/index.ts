@@ -0,0 +1,391 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import {randomUUID} from 'crypto';
+import events from 'events';
+import * as gql from 'graphql';
+import http from 'http';
+import {AddressInfo} from 'net';
+import {promisify} from 'util';
+import zlib from 'zlib';
+
+import {OpviousClient, OpviousClientOptions} from '../client/index.js';
+import {openapiDocument} from '../common.js';
+import {
+  ANY_OPERATION,
+  MockFault,
+  MockGraphqlResponder,
+  MockRequest,
+  MockResponder,
+  MockResponse,
+  MockScriptOptions,
+} from './common.js';
+
+export * from './common.js';
+
+/**
+ * In-process stand-in for the Opvious API, useful for testing code which uses
+ * the client without network access. Responses are scripted per operation,
+ * received requests are recorded, and faults can be injected to exercise
+ * error handling.
+ */
+export class MockOpviousServer {
+  private readonly recorded: MockRequest[] = [];
+  private readonly responders: Script<MockResponder>[] = [];
+  private readonly faults: Script<MockFault>[] = [];
+  private constructor(
+    private readonly server: http.Server,
+    private readonly routes: ReadonlyArray<Route>,
+    private readonly defaults: MockResponders,
+    /** Base endpoint, suitable for use as client endpoint. */
+    readonly endpoint: string
+  ) {}
+
+  /**
+   * Starts a new server, by default listening on a random local port.
+   * Operations without a matching script are handled by default responders,
+   * if any. Built-in defaults queue solves with a random UUID and accept all
+   * cancellations, they can be overridden via the `defaults` option. Unlike
+   * scripts, defaults are not cleared by `reset`.
+   */
+  static async start(opts?: {
+    readonly port?: number;
+    readonly defaults?: MockResponders;
+  }): Promise<MockOpviousServer> {
+    const server = http.createServer();
+    server.listen(opts?.port ?? 0, '127.0.0.1');
+    await events.once(server, 'listening');
+    const {port} = server.address() as AddressInfo;
+    const mock = new MockOpviousServer(
+      server,
+      operationRoutes(),
+      {...DEFAULT_RESPONDERS, ...opts?.defaults},
+      `http://127.0.0.1:${port}`
+    );
+    server.on('request', (req, res) => {
+      mock.handle(req, res).catch((err) => {
+        res.destroy(err);
+      });
+    });
+    return mock;
+  }
+
+  /** Creates a new client connected to this server. */
+  client(opts?: OpviousClientOptions): OpviousClient {
+    return OpviousClient.create({
+      token: 'mock-token',
+      ...opts,
+      endpoint: this.endpoint,
+    });
+  }
+
+  /**
+   * Scripts responses for a REST operation (identified by its OpenAPI
+   * operation ID, for example `queueSolve`). Scripts are matched in the order
+   * they were added.
+   */
+  script(
+    operation: string,
+    responder: MockResponder,
+    opts?: MockScriptOptions
+  ): this {
+    this.responders.push(newScript(operation, responder, opts));
+    return this;
+  }
+
+  /**
+   * Scripts data returned for a GraphQL operation (identified by its name, for
+   * example `FetchMember`).
+   */
+  scriptGraphql(
+    operation: string,
+    responder: MockGraphqlResponder,
+    opts?: MockScriptOptions
+  ): this {
+    return this.script(
+      operation,
+      (req) =>
+        graphqlResponse(
+          typeof responder == 'function'
+            ? responder(req.variables ?? {})
+            : responder
+        ),
+      opts
+    );
+  }
+
+  /**
+   * Injects a fault for matching requests. Faults take precedence over scripted
+   * responses. Use `'*'` to match requests from all operations.
+   */
+  injectFault(
+    operation: string,
+    fault: MockFault,
+    opts?: MockScriptOptions
+  ): this {
+    this.faults.push(newScript(operation, fault, opts));
+    return this;
+  }
+
+  /** Returns all requests received so far, optionally filtered by operation. */
+  requests(operation?: string): ReadonlyArray<MockRequest> {
+    return operation == null
+      ? [...this.recorded]
+      : this.recorded.filter((r) => r.operation === operation);
+  }
+
+  /** Clears all scripts, faults, and recorded requests. */
+  reset(): void {
+    this.recorded.length = 0;
+    this.responders.length = 0;
+    this.faults.length = 0;
+  }
+
+  /** Stops the server, closing any open connections. */
+  async close(): Promise<void> {
+    const closed = promisify(this.server.close.bind(this.server))();
+    this.server.closeAllConnections();
+    await closed;
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const method = req.method ?? 'GET';
+    const {pathname: path} = new URL(req.url ?? '/', this.endpoint);
+    const route = this.routes.find(
+      (r) => r.method === method && r.pattern.test(path)
+    );
+    const body = await readBody(req);
+
+    let operation = route?.operationId ?? `${method} ${path}`;
+    let variables: MockRequest['variables'];
+    if (isGraphqlRequestBody(body)) {
+      operation = graphqlOperationName(body.query) ?? operation;
+      variables = body.variables ?? {};
+    }
+    const mreq: MockRequest = {
+      operation,
+      method,
+      path,
+      headers: req.headers,
+      body,
+      variables,
+    };
+    this.recorded.push(mreq);
+
+    const fault = takeScript(this.faults, operation);
+    if (fault) {
+      switch (fault.kind) {
+        case 'status': {
+          const headers: Record<string, string> = {};
+          if (fault.retryAfterSeconds != null) {
+            headers['retry-after'] = '' + fault.retryAfterSeconds;
+          }
+          await sendResponse(res, {
+            status: fault.status,
+            headers,
+            data: {message: `Injected ${fault.status} fault`},
+          });
+          return;
+        }
+        case 'disconnect':
+          req.socket.destroy();
+          return;
+        case 'stall':
+          return;
+      }
+    }
+
+    const responder =
+      takeScript(this.responders, operation) ?? this.defaults[operation];
+    let mres: MockResponse;
+    if (responder) {
+      mres = typeof responder == 'function' ? await responder(mreq) : responder;
+    } else if (variables) {
+      mres = {
+        data: {errors: [{message: `Unscripted operation ${operation}`}]},
+      };
+    } else {
+      mres = {
+        status: 501,
+        data: {message: `Unscripted operation ${operation}`},
+      };
+    }
+    await sendResponse(res, mres);
+  }
+}
+
+interface MockResponders {
+  readonly [operation: string]: MockResponder;
+}
+
+const DEFAULT_RESPONDERS: MockResponders = {
+  queueSolve: () => ({data: {uuid: randomUUID()}}),
+  CancelQueuedSolve: graphqlResponse({cancelQueuedSolve: true}),
+};
+
+function graphqlResponse(data: unknown): MockResponse {
+  return {data: {data}};
+}
+
+/** Body of GraphQL requests. */
+interface GraphqlRequestBody {
+  readonly query: string;
+  readonly variables?: {readonly [name: string]: unknown};
+}
+
+function isGraphqlRequestBody(body: unknown): body is GraphqlRequestBody {
+  return (
+    typeof body == 'object' &&
+    body != null &&
+    'query' in body &&
+    typeof body.query == 'string'
+  );
+}
+
+interface Route {
+  readonly operationId: string;
+  readonly method: string;
+  readonly pattern: RegExp;
+}
+
+const HTTP_METHODS = ['delete', 'get', 'head', 'patch', 'post', 'put'];
+
+interface OpenapiPaths {
+  readonly [path: string]: {readonly [method: string]: unknown} | undefined;
+}
+
+function operationRoutes(): ReadonlyArray<Route> {
+  const routes: Route[] = [];
+  const paths: OpenapiPaths = openapiDocument().paths ?? {};
+  for (const [path, item] of Object.entries(paths)) {
+    for (const method of HTTP_METHODS) {
+      const op = item?.[method];
+      const operationId =
+        typeof op == 'object' && op != null && 'operationId' in op
+          ? op.operationId
+          : undefined;
+      if (typeof operationId == 'string') {
+        routes.push({
+          operationId,
+          method: method.toUpperCase(),
+          pattern: pathPattern(path),
+        });
+      }
+    }
+  }
+  return routes;
+}
+
+function pathPattern(path: string): RegExp {
+  const src = path
+    .split(/\{[^}]+\}/)
+    .map((s) => s.replace(/[.*+?^$()|[\]\\]/g, '\\$&'))
+    .join('[^/]+');
+  return new RegExp(`^${src}$`);
+}
+
+function graphqlOperationName(query: string): string | undefined {
+  try {
+    return gql.getOperationAST(gql.parse(query))?.name?.value;
+  } catch (_err) {
+    return undefined;
+  }
+}
+
+interface Script<V> {
+  readonly operation: string;
+  readonly value: V;
+  remaining: number;
+}
+
+function newScript<V>(
+  operation: string,
+  value: V,
+  opts: MockScriptOptions | undefined
+): Script<V> {
+  return {operation, value, remaining: opts?.times ?? Infinity};
+}
+
+function takeScript<V>(
+  scripts: ReadonlyArray<Script<V>>,
+  operation: string
+): V | undefined {
+  const script = scripts.find(
+    (s) =>
+      s.remaining > 0 &&
+      (s.operation === operation || s.operation === ANY_OPERATION)
+  );
+  if (!script) {
+    return undefined;
+  }
+  script.remaining--;
+  return script.value;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  let buf = Buffer.concat(chunks);
+  switch (req.headers['content-encoding']) {
+    case 'br':
+      buf = zlib.brotliDecompressSync(buf);
+      break;
+    case 'gzip':
+      buf = zlib.gunzipSync(buf);
+      break;
+  }
+  const str = buf.toString('utf8');
+  if (!str || !req.headers['content-type']?.includes('json')) {
+    return str || undefined;
+  }
+  return JSON.parse(str);
+}
+
+async function sendResponse(
+  res: http.ServerResponse,
+  mres: MockResponse
+): Promise<void> {
+  const status = mres.status ?? 200;
+  const headers = {...mres.headers};
+  if (mres.sequence) {
+    res.writeHead(status, {'content-type': 'application/json-seq', ...headers});
+    for (const [ix, item] of mres.sequence.entries()) {
+      if (ix === mres.dropAfter) {
+        res.destroy();
+        return;
+      }
+      if (!res.write(`\x1e${JSON.stringify(item)}\n`)) {
+        await events.once(res, 'drain');
+      }
+    }
+    res.end();
+  } else if (mres.text != null) {
+    res.writeHead(status, {'content-type': 'text/plain', ...headers});
+    res.end(mres.text);
+  } else if (mres.data !== undefined) {
+    res.writeHead(status, {'content-type': 'application/json', ...headers});
+    res.end(JSON.stringify(mres.data));
+  } else {
+    res.writeHead(status, headers);
+    res.end();
+  }
+}
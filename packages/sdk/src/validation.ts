@@ -0,0 +1,232 @@
+/**
+ * Licensed to the Apache Software Foundation (ASF) under one or more
+ * contributor license agreements.  See the NOTICE file distributed with this
+ * work for additional information regarding copyright ownership.  The ASF
+ * licenses this file to you under the Apache License, Version 2.0 (the
+ * "License"); you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS, WITHOUT
+ * WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.  See the
+ * License for the specific language governing permissions and limitations under
+ * the License.
+ */
+
+import * as api from '@opvious/api';
+
+export type KeyItem = api.Schema<'KeyItem'>;
+
+/** Local problem validation error. */
+export interface ProblemIssue {
+  /** JSON path to the offending value, for example `$.inputs.dimensions[0]`. */
+  readonly path: string;
+  readonly message: string;
+}
+
+/**
+ * Validates a problem's inputs against its formulation's outline locally. This
+ * allows catching most invalid inputs before sending them to the API. The
+ * following checks are performed:
+ *
+ * + all non-derived parameters are present and no unknown dimensions or
+ *   parameters are set;
+ * + parameter keys have as many items as the parameter's bindings and each
+ *   item belongs to its bound dimension, when the dimension's items are set;
+ * + items of numeric dimensions are numbers;
+ * + parameter values (including defaults) are integral when required and
+ *   within the parameter's bounds.
+ */
+export function validateProblem(
+  problem: api.Schema<'Problem'>,
+  outline: api.Schema<'Outline'>
+): ReadonlyArray<ProblemIssue> {
+  const issues: ProblemIssue[] = [];
+  const {dimensions = [], parameters} = problem.inputs;
+
+  const dimOutlines = new Map(outline.dimensions.map((d) => [d.label, d]));
+  const dimItems = new Map<string, ReadonlySet<KeyItem>>();
+  for (const [dix, dim] of dimensions.entries()) {
+    const path = `$.inputs.dimensions[${dix}]`;
+    const {label, items} = dim;
+    const dimOutline = dimOutlines.get(label);
+    if (!dimOutline) {
+      issues.push({path, message: `Unknown dimension ${label}`});
+      continue;
+    }
+    const seen = new Set<KeyItem>();
+    for (const [ix, item] of items.entries()) {
+      const itemPath = `${path}.items[${ix}]`;
+      if (dimOutline.isNumeric && typeof item != 'number') {
+        issues.push({
+          path: itemPath,
+          message: `Non-numeric item ${item} in numeric dimension ${label}`,
+        });
+      }
+      if (seen.has(item)) {
+        issues.push({path: itemPath, message: `Duplicate item ${item}`});
+      }
+      seen.add(item);
+    }
+    dimItems.set(label, seen);
+  }
+
+  const paramOutlines = new Map(outline.parameters.map((p) => [p.label, p]));
+  const labels = new Set<string>();
+  for (const [pix, param] of parameters.entries()) {
+    const path = `$.inputs.parameters[${pix}]`;
+    const {label} = param;
+    labels.add(label);
+    const tsr = paramOutlines.get(label);
+    if (!tsr) {
+      issues.push({path, message: `Unknown parameter ${label}`});
+      continue;
+    }
+    if (tsr.derivation != null) {
+      issues.push({
+        path,
+        message: `Derived parameter ${label} is not settable`,
+      });
+      continue;
+    }
+    const checkValue = (val: number, valPath: string): void => {
+      const msg = imageViolation(tsr.image, val);
+      if (msg) {
+        issues.push({path: valPath, message: `${label} ${msg}`});
+      }
+    };
+    if (param.defaultValue != null) {
+      checkValue(param.defaultValue, `${path}.defaultValue`);
+    }
+    for (const [eix, entry] of param.entries.entries()) {
+      const entryPath = `${path}.entries[${eix}]`;
+      const {key} = entry;
+      if (key.length !== tsr.bindings.length) {
+        issues.push({
+          path: `${entryPath}.key`,
+          message:
+            `Key of ${label} has ${key.length} item(s) but its rank is ` +
+            tsr.bindings.length,
+        });
+      } else {
+        for (const [kix, binding] of tsr.bindings.entries()) {
+          const dimLabel = binding.dimensionLabel;
+          if (dimLabel == null) {
+            continue;
+          }
+          const item = key[kix]!;
+          const itemPath = `${entryPath}.key[${kix}]`;
+          if (dimOutlines.get(dimLabel)?.isNumeric && typeof item != 'number') {
+            issues.push({
+              path: itemPath,
+              message: `Non-numeric item ${item} in numeric dimension ${dimLabel}`,
+            });
+          }
+          const items = dimItems.get(dimLabel);
+          if (items && !items.has(item)) {
+            issues.push({
+              path: itemPath,
+              message: `Item ${item} does not belong to dimension ${dimLabel}`,
+            });
+          }
+        }
+      }
+      checkValue(entry.value ?? 1, `${entryPath}.value`);
+    }
+  }
+  for (const tsr of outline.parameters) {
+    if (tsr.derivation == null && !labels.has(tsr.label)) {
+      issues.push({
+        path: '$.inputs.parameters',
+        message: `Missing parameter ${tsr.label}`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Returns warnings about a reified problem (see `inspectProblem`), with paths
+ * relative to its summary:
+ *
+ * + dimensions without items and parameters without entries;
+ * + variables without columns and constraints without rows;
+ * + variables and constraints with more than `maxInstances` (default one
+ *   million) columns or rows, which often signal an accidental combinatorial
+ *   blow-up.
+ */
+export function summaryWarnings(
+  summary: api.Schema<'ProblemSummary'>,
+  opts?: {readonly maxInstances?: number}
+): ReadonlyArray<ProblemIssue> {
+  const maxInstances = opts?.maxInstances ?? 1_000_000;
+  const warnings: ProblemIssue[] = [];
+  for (const [ix, dim] of summary.dimensions.entries()) {
+    if (!dim.itemCount) {
+      warnings.push({
+        path: `$.dimensions[${ix}]`,
+        message: `Dimension ${dim.label} is empty`,
+      });
+    }
+  }
+  for (const [ix, param] of summary.parameters.entries()) {
+    if (!param.entryProfile.count) {
+      warnings.push({
+        path: `$.parameters[${ix}]`,
+        message: `Parameter ${param.label} has no entries`,
+      });
+    }
+  }
+  const checkCount = (
+    path: string,
+    desc: string,
+    count: number,
+    unit: string
+  ): void => {
+    if (!count) {
+      warnings.push({path, message: `${desc} has no ${unit}s`});
+    } else if (count > maxInstances) {
+      warnings.push({
+        path,
+        message: `${desc} has ${count} ${unit}s (more than ${maxInstances})`,
+      });
+    }
+  };
+  for (const [ix, vr] of summary.variables.entries()) {
+    checkCount(
+      `$.variables[${ix}]`,
+      `Variable ${vr.label}`,
+      vr.columnCount,
+      'column'
+    );
+  }
+  for (const [ix, cs] of summary.constraints.entries()) {
+    checkCount(
+      `$.constraints[${ix}]`,
+      `Constraint ${cs.label}`,
+      cs.rowCount,
+      'row'
+    );
+  }
+  return warnings;
+}
+
+/** Returns a description of the value's violation of the image, if any. */
+function imageViolation(
+  image: api.Schema<'ParameterOutline'>['image'],
+  val: number
+): string | undefined {
+  if (image.isIntegral && !Number.isInteger(val)) {
+    return `value ${val} is not integral`;
+  }
+  const {lowerBound: lb, upperBound: ub} = image;
+  if (typeof lb == 'number' && val < lb) {
+    return `value ${val} is below its lower bound ${lb}`;
+  }
+  if (typeof ub == 'number' && val > ub) {
+    return `value ${val} is above its upper bound ${ub}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,134 @@
+import {noopTelemetry} from '@opvious/stl-telemetry';
+import events from 'events';
+import net from 'net';
+
+import * as sut from '../src/client/agent.js';
+import {apiFetch} from '../src/client/fetch.js';
+
+const PROXY_VARIABLES = ['HTTPS_PROXY', 'HTTP_PROXY', 'ALL_PROXY', 'NO_PROXY'];
+
+describe('proxy URL', () => {
+  const httpsTarget = new URL('https://api.opvious.io');
+  const httpTarget = new URL('http://localhost:8080');
+
+  beforeEach(() => {
+    for (const name of PROXY_VARIABLES) {
+      vi.stubEnv(name, '');
+      vi.stubEnv(name.toLowerCase(), '');
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  test('is absent by default', () => {
+    expect(sut.proxyUrl(httpsTarget, undefined)).toBeUndefined();
+  });
+
+  test('uses the explicit proxy', () => {
+    vi.stubEnv('HTTPS_PROXY', 'http://env.local:3128');
+    const url = sut.proxyUrl(httpsTarget, {proxy: 'http://opt.local:3128'});
+    expect(url?.host).toEqual('opt.local:3128');
+  });
+
+  test('can be disabled', () => {
+    vi.stubEnv('HTTPS_PROXY', 'http://env.local:3128');
+    expect(sut.proxyUrl(httpsTarget, {proxy: false})).toBeUndefined();
+  });
+
+  test('uses the variable matching the target protocol', () => {
+    vi.stubEnv('HTTPS_PROXY', 'http://secure.local');
+    vi.stubEnv('HTTP_PROXY', 'http://plain.local');
+    expect(sut.proxyUrl(httpsTarget, undefined)?.host).toEqual('secure.local');
+    expect(sut.proxyUrl(httpTarget, undefined)?.host).toEqual('plain.local');
+  });
+
+  test('prefers lowercase variables', () => {
+    vi.stubEnv('HTTPS_PROXY', 'http://upper.local');
+    vi.stubEnv('https_proxy', 'http://lower.local');
+    expect(sut.proxyUrl(httpsTarget, undefined)?.host).toEqual('lower.local');
+  });
+
+  test('falls back to ALL_PROXY', () => {
+    vi.stubEnv('ALL_PROXY', 'http://all.local');
+    expect(sut.proxyUrl(httpTarget, undefined)?.host).toEqual('all.local');
+  });
+
+  test('bypasses NO_PROXY hosts', () => {
+    vi.stubEnv('HTTPS_PROXY', 'http://env.local');
+    vi.stubEnv('NO_PROXY', 'example.com, .opvious.io');
+    expect(sut.proxyUrl(httpsTarget, undefined)).toBeUndefined();
+    const url = sut.proxyUrl(httpsTarget, {noProxy: ['example.com']});
+    expect(url?.host).toEqual('env.local');
+  });
+});
+
+describe('proxy bypass', () => {
+  test.each<[string, string, boolean]>([
+    ['https://api.opvious.io', '*', true],
+    ['https://api.opvious.io', 'api.opvious.io', true],
+    ['https://api.opvious.io', 'opvious.io', true],
+    ['https://api.opvious.io', '.opvious.io', true],
+    ['https://api.opvious.io', '*.opvious.io', true],
+    ['https://API.Opvious.io', 'api.opvious.IO', true],
+    ['https://api.opvious.io', 'vious.io', false],
+    ['https://api.opvious.io', 'other.io', false],
+    ['https://api.opvious.io', 'opvious.io:443', true],
+    ['https://api.opvious.io', 'opvious.io:8443', false],
+    ['http://localhost:8080', 'localhost:8080', true],
+    ['http://localhost:8080', 'localhost:80', false],
+    ['http://localhost', 'localhost:80', true],
+  ])('%s with %s: %s', (target, entry, want) => {
+    expect(sut.bypassesProxy(new URL(target), [entry])).toBe(want);
+  });
+
+  test('matches any entry', () => {
+    const target = new URL('https://api.opvious.io');
+    expect(sut.bypassesProxy(target, [])).toBe(false);
+    expect(sut.bypassesProxy(target, ['a.io', 'opvious.io'])).toBe(true);
+  });
+});
+
+describe('proxy tunnel', () => {
+  let proxy: net.Server;
+  let sockets: net.Socket[];
+
+  beforeAll(async () => {
+    sockets = [];
+    // Accepts connections but never responds to CONNECT requests.
+    proxy = net.createServer((socket) => {
+      sockets.push(socket);
+      socket.resume();
+    });
+    proxy.listen(0, '127.0.0.1');
+    await events.once(proxy, 'listening');
+  });
+
+  afterAll(async () => {
+    for (const socket of sockets) {
+      socket.destroy();
+    }
+    proxy.close();
+    await events.once(proxy, 'close');
+  });
+
+  test('is closed when the request times out', async () => {
+    const {logger} = noopTelemetry();
+    const {port} = proxy.address() as net.AddressInfo;
+    const agent = sut.apiAgent(
+      'http://api.opvious.test',
+      {proxy: `http://127.0.0.1:${port}`, keepAlive: false},
+      logger
+    );
+    const fetch = apiFetch({logger, agent, requestTimeoutMillis: 50});
+    await expect(fetch('http://api.opvious.test/ping')).rejects.toThrow(
+      /timed out/
+    );
+    expect(sockets).toHaveLength(1);
+    const [socket] = sockets;
+    if (!socket!.closed) {
+      await events.once(socket!, 'close');
+    }
+  });
+});
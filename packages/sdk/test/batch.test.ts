@@ -0,0 +1,96 @@
+import {waitForEvent} from '@opvious/stl-utils/events';
+import {getEventListeners} from 'events';
+
+import * as sut from '../src/batch.js';
+import {MockOpviousServer} from '../src/testing/index.js';
+
+const problem = {
+  formulation: {name: 'n-queens'},
+  inputs: {parameters: [{label: 'size', entries: [{key: [], value: 5}]}]},
+};
+
+describe('solve batch', () => {
+  let server: MockOpviousServer;
+
+  beforeAll(async () => {
+    server = await MockOpviousServer.start();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('solves all problems', async () => {
+    let count = 0;
+    server
+      .script('queueSolve', () => ({data: {uuid: `u${++count}`}}))
+      .scriptGraphql('PollQueuedSolve', (vars) => ({
+        queuedSolve:
+          vars.uuid === 'u2'
+            ? {failure: {status: 'ERRORED'}}
+            : {outcome: {status: 'OPTIMAL'}},
+      }));
+    const client = server.client();
+    const batch = sut.startSolveBatch(client, [problem, problem, problem], {
+      concurrency: 2,
+      initialIntervalMillis: 1,
+    });
+    const progress: number[] = [];
+    batch.on('progress', (settled) => void progress.push(settled));
+    const [summary] = await waitForEvent(batch, 'done');
+    expect(summary.statusCounts).toEqual({OPTIMAL: 2, FAILURE: 1});
+    expect(summary.results.map((r) => r.kind)).toEqual([
+      'outcome',
+      'failure',
+      'outcome',
+    ]);
+    expect(progress).toEqual([1, 2, 3]);
+    expect(await batch.summary()).toBe(summary);
+  });
+
+  test('cancels pending solves', async () => {
+    let count = 0;
+    server
+      .script('queueSolve', () => ({data: {uuid: `u${++count}`}}))
+      .scriptGraphql('PollQueuedSolve', {queuedSolve: {}})
+      .scriptGraphql('CancelQueuedSolve', {cancelQueuedSolve: true});
+    const client = server.client();
+    const batch = sut.startSolveBatch(client, [problem, problem, problem], {
+      concurrency: 2,
+      initialIntervalMillis: 1,
+    });
+    await waitForEvent(batch, 'queued');
+    await waitForEvent(batch, 'queued');
+    expect(await batch.cancel()).toEqual(2);
+    const summary = await batch.summary();
+    expect(summary.statusCounts).toEqual({CANCELLED: 3});
+  });
+
+  test('releases its signal once done', async () => {
+    server
+      .script('queueSolve', {data: {uuid: 'u1'}})
+      .scriptGraphql('PollQueuedSolve', {
+        queuedSolve: {outcome: {status: 'OPTIMAL'}},
+      });
+    const client = server.client();
+    const ac = new AbortController();
+    const batch = sut.startSolveBatch(client, [problem], {
+      initialIntervalMillis: 1,
+      signal: ac.signal,
+    });
+    expect(getEventListeners(ac.signal, 'abort')).toHaveLength(1);
+    await batch.summary();
+    expect(getEventListeners(ac.signal, 'abort')).toHaveLength(0);
+  });
+
+  test('rejects invalid concurrency', () => {
+    const client = server.client();
+    expect(() =>
+      sut.startSolveBatch(client, [problem], {concurrency: 0})
+    ).toThrow(/concurrency/);
+  });
+});
@@ -0,0 +1,76 @@
+import * as api from '@opvious/api';
+
+import * as sut from '../src/builder.js';
+
+const outline: api.Schema<'Outline'> = {
+  dimensions: [
+    {label: 'cities', isNumeric: false},
+    {label: 'days', isNumeric: true},
+  ],
+  parameters: [
+    {
+      label: 'demand',
+      bindings: [{dimensionLabel: 'cities'}, {dimensionLabel: 'days'}],
+      image: {isIntegral: true, lowerBound: 0, upperBound: 'Infinity'},
+    },
+    {
+      label: 'capacity',
+      bindings: [],
+      image: {isIntegral: false, lowerBound: 0, upperBound: 100},
+    },
+  ],
+  variables: [],
+  constraints: [],
+  objectives: [],
+};
+
+describe('problem builder', () => {
+  test('builds valid problem', () => {
+    const {problem, issues} = sut.ProblemBuilder.create({
+      formulationName: 'shipping',
+      outline,
+    })
+      .setDimension('cities', ['nyc', 'sf'])
+      .setParameter('demand', [{key: ['nyc', 1], value: 3}, {key: ['sf', 2]}])
+      .setScalar('capacity', 50)
+      .setOptions({timeoutMillis: 1_000})
+      .build();
+    expect(issues).toEqual([]);
+    expect(problem).toEqual({
+      formulation: {name: 'shipping'},
+      inputs: {
+        dimensions: [{label: 'cities', items: ['nyc', 'sf']}],
+        parameters: [
+          {
+            label: 'demand',
+            entries: [{key: ['nyc', 1], value: 3}, {key: ['sf', 2]}],
+          },
+          {label: 'capacity', entries: [{key: [], value: 50}]},
+        ],
+      },
+      options: {timeoutMillis: 1_000},
+    });
+  });
+
+  test('reports issues with paths', () => {
+    const issues = sut.ProblemBuilder.create({
+      formulationName: 'shipping',
+      outline,
+    })
+      .setDimension('cities', ['nyc'])
+      .setDimension('colors', ['red'])
+      .setParameter('demand', [
+        {key: ['nyc'], value: 3},
+        {key: ['la', 'a'], value: 1.5},
+      ])
+      .validate();
+    expect(issues.map((i) => i.path)).toEqual([
+      '$.inputs.dimensions[1]',
+      '$.inputs.parameters[0].entries[0].key',
+      '$.inputs.parameters[0].entries[1].key[0]',
+      '$.inputs.parameters[0].entries[1].key[1]',
+      '$.inputs.parameters[0].entries[1].value',
+      '$.inputs.parameters',
+    ]);
+  });
+});
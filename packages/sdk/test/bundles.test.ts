@@ -0,0 +1,163 @@
+import {ResourceLoader} from '@opvious/stl-utils/files';
+import {mkdir, mkdtemp, readFile, writeFile} from 'fs/promises';
+import http from 'http';
+import {AddressInfo} from 'net';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+
+import * as sut from '../src/index.js';
+
+const loader = ResourceLoader.enclosing(import.meta.url).scoped('test');
+
+describe('load problem', () => {
+  test('loads CSV bundle', async () => {
+    const problem = await sut.loadProblem(loader.localUrl('bundles/set-cover'));
+    expect(problem).toEqual({
+      formulation: {name: 'set-cover'},
+      inputs: {
+        dimensions: [{label: 'vertices', items: ['v1', 'v2']}],
+        parameters: [
+          {label: 'budget', entries: [{key: [], value: 2.5}]},
+          {
+            label: 'coverage',
+            entries: [
+              {key: ['s1', 'v1']},
+              {key: ['s2', 'v2']},
+              {key: ['s,3', 'v1']},
+            ],
+            defaultValue: 0,
+          },
+        ],
+      },
+      options: {timeoutMillis: 5000},
+    });
+  });
+
+  test('parses numeric values', async () => {
+    const dp = await mkdtemp(path.join(os.tmpdir(), 'opvious-'));
+    await writeFile(path.join(dp, 'manifest.yaml'), 'formulation: {name: f}');
+    await mkdir(path.join(dp, 'parameters'));
+    await writeFile(
+      path.join(dp, 'parameters', 'weight.csv'),
+      'item,value\n1,1.0\n2,0.50\n3,1e-3\n4,+5\n'
+    );
+    const problem = await sut.loadProblem(dp);
+    expect(problem.inputs.parameters).toEqual([
+      {
+        label: 'weight',
+        entries: [
+          {key: [1], value: 1},
+          {key: [2], value: 0.5},
+          {key: [3], value: 0.001},
+          {key: [4], value: 5},
+        ],
+      },
+    ]);
+  });
+
+  test('rejects non-numeric values', async () => {
+    const dp = await mkdtemp(path.join(os.tmpdir(), 'opvious-'));
+    await writeFile(path.join(dp, 'manifest.yaml'), 'formulation: {name: f}');
+    await mkdir(path.join(dp, 'parameters'));
+    await writeFile(
+      path.join(dp, 'parameters', 'weight.csv'),
+      'item,value\n1,one\n'
+    );
+    await expect(sut.loadProblem(dp)).rejects.toThrow(/non-numeric value one/);
+  });
+
+  test('types key columns consistently', async () => {
+    const dp = await mkdtemp(path.join(os.tmpdir(), 'opvious-'));
+    await writeFile(path.join(dp, 'manifest.yaml'), 'formulation: {name: f}');
+    await mkdir(path.join(dp, 'dimensions'));
+    await writeFile(path.join(dp, 'dimensions', 'ids.csv'), 'id\n001\n10\n');
+    await mkdir(path.join(dp, 'parameters'));
+    await writeFile(
+      path.join(dp, 'parameters', 'size.csv'),
+      'ids,day,value\n10,1,2\n10,2,3\n'
+    );
+    const problem = await sut.loadProblem(dp);
+    expect(problem.inputs).toEqual({
+      dimensions: [{label: 'ids', items: ['001', '10']}],
+      parameters: [
+        {
+          label: 'size',
+          entries: [
+            {key: ['10', 1], value: 2},
+            {key: ['10', 2], value: 3},
+          ],
+        },
+      ],
+    });
+  });
+
+  test.each<[string, RegExp]>([
+    ['[]', /manifest is not an object/],
+    ['options: {}', /missing formulation/],
+    ['{formulation: {name: f}, transformations: {}}', /transformations/],
+    ['{formulation: {name: f}, defaultValues: {a: one}}', /default values/],
+  ])('rejects invalid manifest %s', async (manifest, want) => {
+    const dp = await mkdtemp(path.join(os.tmpdir(), 'opvious-'));
+    await writeFile(path.join(dp, 'manifest.yaml'), manifest);
+    await expect(sut.loadProblem(dp)).rejects.toThrow(want);
+  });
+
+  test('loads gzipped file', async () => {
+    const src = loader.localUrl('problems/set-cover.yaml');
+    const dp = await mkdtemp(path.join(os.tmpdir(), 'opvious-'));
+    const fp = path.join(dp, 'set-cover.yaml.gz');
+    await writeFile(fp, zlib.gzipSync(await readFile(src)));
+    const problem = await sut.loadProblem(fp);
+    expect(problem).toEqual(await sut.loadProblem(src));
+  });
+
+  test('streams compressed JSON file', async () => {
+    const src = loader.localUrl('problems/set-cover.yaml');
+    const expected = await sut.loadProblem(src);
+    const dp = await mkdtemp(path.join(os.tmpdir(), 'opvious-'));
+    const fp = path.join(dp, 'set-cover.json.br');
+    await writeFile(fp, zlib.brotliCompressSync(JSON.stringify(expected)));
+    const problem = await sut.loadProblem(fp);
+    expect(problem).toEqual(expected);
+  });
+
+  describe('from URL', () => {
+    let server: http.Server;
+    let url: string;
+    let status: number;
+
+    beforeAll(async () => {
+      const body = await readFile(loader.localUrl('problems/set-cover.yaml'));
+      server = http.createServer((req, res) => {
+        req.resume().on('end', () => void res.writeHead(status).end(body));
+      });
+      await new Promise<void>((ok) => void server.listen(0, ok));
+      url = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((ok) => void server.close(ok));
+    });
+
+    test('fetches problems via the client', async () => {
+      status = 200;
+      const client = sut.OpviousClient.create({agent: {proxy: false}});
+      const problem = await sut.loadProblem(`${url}/set-cover.yaml`, {client});
+      expect(problem).toEqual(
+        await sut.loadProblem(loader.localUrl('problems/set-cover.yaml'))
+      );
+    });
+
+    test('rejects failed fetches', async () => {
+      status = 404;
+      const client = sut.OpviousClient.create({
+        agent: {proxy: false},
+        retryPolicy: {maxAttempts: 1},
+      });
+      await expect(
+        sut.loadProblem(`${url}/set-cover.yaml`, {client})
+      ).rejects.toThrow(/status 404/);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import {mkdtemp} from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import * as sut from '../src/index.js';
+
+const entry = {outcome: {status: 'OPTIMAL'}, storedAt: 0} as const;
+
+describe('solve cache', () => {
+  test('keys problems canonically', () => {
+    const key1 = sut.solveCacheKey({
+      formulation: {name: 'f', specificationTagName: 't'},
+      inputs: {parameters: [{label: 'p', entries: [{key: ['a'], value: 2}]}]},
+    });
+    const key2 = sut.solveCacheKey({
+      inputs: {parameters: [{entries: [{value: 2, key: ['a']}], label: 'p'}]},
+      formulation: {specificationTagName: 't', name: 'f'},
+    });
+    const key3 = sut.solveCacheKey({
+      formulation: {name: 'f', specificationTagName: 't'},
+      inputs: {parameters: [{label: 'p', entries: [{key: ['a'], value: 3}]}]},
+    });
+    expect(key1).toEqual(key2);
+    expect(key1).not.toEqual(key3);
+  });
+
+  test('evicts least recently used entries', async () => {
+    const storage = sut.memorySolveCacheStorage({maxEntries: 2});
+    await storage.set('a', entry);
+    await storage.set('b', entry);
+    await storage.get('a');
+    await storage.set('c', entry);
+    expect(await storage.get('a')).toEqual(entry);
+    expect(await storage.get('b')).toBeUndefined();
+    expect(await storage.get('c')).toEqual(entry);
+  });
+
+  test('persists entries to files', async () => {
+    const dp = await mkdtemp(path.join(os.tmpdir(), 'opvious-'));
+    const storage = sut.fileSolveCacheStorage(path.join(dp, 'cache'));
+    expect(await storage.get('a')).toBeUndefined();
+    await storage.set('a', entry);
+    expect(
+      await sut.fileSolveCacheStorage(path.join(dp, 'cache')).get('a')
+    ).toEqual(entry);
+    await storage.delete('a');
+    expect(await storage.get('a')).toBeUndefined();
+  });
+});
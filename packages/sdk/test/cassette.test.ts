@@ -0,0 +1,70 @@
+import {noopTelemetry} from '@opvious/stl-telemetry';
+import {waitForEvent} from '@opvious/stl-utils/events';
+import {mkdtemp, readFile} from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import * as sut from '../src/client/cassette.js';
+import {MockOpviousServer} from '../src/testing/index.js';
+
+const problem = {
+  formulation: {name: 'n-queens'},
+  inputs: {parameters: [{label: 'size', entries: [{key: [], value: 5}]}]},
+};
+
+describe('cassette', () => {
+  let server: MockOpviousServer;
+  let fp: string;
+
+  beforeAll(async () => {
+    server = await MockOpviousServer.start();
+    const dp = await mkdtemp(path.join(os.tmpdir(), 'opvious-cassette-'));
+    fp = path.join(dp, 'cassette.jsonl');
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('records and replays interactions', async () => {
+    server.script('queueSolve', {data: {uuid: 'abc'}}).script('solve', {
+      sequence: [{kind: 'solved', outcome: {status: 'OPTIMAL'}}],
+    });
+
+    const recorder = server.client({cassette: {mode: 'record', path: fp}});
+    await recorder.queueSolve({problem});
+    await waitForEvent(recorder.runSolve({problem}), 'solved');
+
+    const contents = await readFile(fp, 'utf8');
+    expect(contents).not.toContain('mock-token');
+
+    server.reset();
+    const replayer = server.client({cassette: {mode: 'replay', path: fp}});
+    const {uuid} = await replayer.queueSolve({problem});
+    expect(uuid).toEqual('abc');
+    const [outcome] = await waitForEvent(
+      replayer.runSolve({problem}),
+      'solved'
+    );
+    expect(outcome).toEqual({status: 'OPTIMAL'});
+    expect(server.requests()).toEqual([]);
+  });
+
+  test('rejects unmatched requests on replay', async () => {
+    const replayer = server.client({cassette: {mode: 'replay', path: fp}});
+    await expect(replayer.fetchMember()).rejects.toThrow(/No recorded/);
+  });
+
+  test('rejects unsupported request bodies', async () => {
+    const fetch = sut.cassetteFetch(
+      {mode: 'record', path: path.join(path.dirname(fp), 'unsupported.jsonl')},
+      noopTelemetry().logger
+    );
+    await expect(
+      fetch(`${server.endpoint}/solve`, {
+        method: 'POST',
+        body: new URLSearchParams({a: '1'}),
+      })
+    ).rejects.toThrow(/do not support URLSearchParams/);
+  });
+});
@@ -0,0 +1,92 @@
+import * as api from '@opvious/api';
+import ts from 'typescript';
+import {fileURLToPath} from 'url';
+
+import * as sut from '../src/codegen.js';
+
+const outline: api.Schema<'Outline'> = {
+  dimensions: [
+    {label: 'cities', isNumeric: false},
+    {label: 'days', isNumeric: true},
+  ],
+  parameters: [
+    {
+      label: 'demand',
+      bindings: [{dimensionLabel: 'cities'}, {dimensionLabel: 'days'}],
+      image: {isIntegral: true, lowerBound: 0, upperBound: 'Infinity'},
+    },
+    {
+      label: 'capacity',
+      bindings: [],
+      image: {isIntegral: false, lowerBound: 0, upperBound: 100},
+    },
+  ],
+  variables: [
+    {
+      label: 'shipped-units',
+      bindings: [{dimensionLabel: 'cities'}],
+      image: {isIntegral: true, lowerBound: 0, upperBound: 'Infinity'},
+    },
+  ],
+  constraints: [],
+  objectives: [],
+};
+
+/** Type-checks a module's source, returning any error messages. */
+function typeErrors(src: string): ReadonlyArray<string> {
+  // The module is placed next to this file so that its imports resolve to the
+  // same packages as the SDK's.
+  const fp = fileURLToPath(new URL('generated.ts', import.meta.url));
+  const opts: ts.CompilerOptions = {
+    module: ts.ModuleKind.Node16,
+    moduleResolution: ts.ModuleResolutionKind.Node16,
+    target: ts.ScriptTarget.ES2022,
+    noEmit: true,
+    skipLibCheck: true,
+    strict: true,
+    types: [],
+  };
+  const host = ts.createCompilerHost(opts);
+  const {fileExists, getSourceFile, readFile} = host;
+  host.fileExists = (fn) => fn === fp || fileExists(fn);
+  host.readFile = (fn) => (fn === fp ? src : readFile(fn));
+  host.getSourceFile = (fn, ...args) =>
+    fn === fp
+      ? ts.createSourceFile(fn, src, ts.ScriptTarget.ES2022)
+      : getSourceFile(fn, ...args);
+  const program = ts.createProgram([fp], opts, host);
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map((d) => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+}
+
+describe('generate formulation module', () => {
+  test('types inputs and outputs', () => {
+    const src = sut.generateFormulationModule({
+      formulationName: 'shipping',
+      tagName: 'latest',
+      outline,
+    });
+    expect(src).toContain('export type CitiesItem = string;');
+    expect(src).toContain('export type DaysItem = number;');
+    expect(src).toContain(
+      'readonly demand: ReadonlyArray<Entry<readonly [CitiesItem, DaysItem]>>;'
+    );
+    expect(src).toContain('readonly capacity: number;');
+    expect(src).toContain(
+      'readonly \'shipped-units\': ReadonlyArray<Result<readonly [CitiesItem]>>;'
+    );
+    expect(src).toContain('\'shipped-units\': entries(\'shipped-units\'),');
+    expect(src).toContain('export const SPECIFICATION_TAG_NAME');
+  });
+
+  test('generates a valid module', () => {
+    const src = sut.generateFormulationModule({
+      formulationName: 'shipping',
+      tagName: 'latest',
+      outline,
+      apiModule: '@opvious/api',
+    });
+    expect(typeErrors(src)).toEqual([]);
+  });
+});
@@ -0,0 +1,50 @@
+import {noopTelemetry} from '@opvious/stl-telemetry';
+import {buffer} from 'stream/consumers';
+import zlib from 'zlib';
+
+import * as sut from '../src/client/common.js';
+
+type Encoder = ReturnType<typeof sut.jsonBrotliEncoder>;
+
+describe('JSON brotli encoder', () => {
+  const {logger} = noopTelemetry();
+
+  function encode(
+    body: unknown,
+    threshold: number
+  ): [ReturnType<Encoder>, unknown] {
+    const headers = {};
+    const ctx = {headers} as Parameters<Encoder>[1];
+    return [sut.jsonBrotliEncoder(logger, {threshold})(body, ctx), headers];
+  }
+
+  const entries = (count: number, last: unknown): ReadonlyArray<unknown> =>
+    Array.from({length: count}, (_, ix) => ({
+      key: [ix],
+      value: ix === count - 1 ? last : ix,
+    }));
+
+  test('does not compress small bodies', () => {
+    const body = {entries: entries(3, 1)};
+    const [encoded, headers] = encode(body, 1024);
+    expect(encoded).toEqual(JSON.stringify(body));
+    expect(headers).toEqual({});
+  });
+
+  test('compresses large bodies', async () => {
+    const body = {entries: entries(20_000, 1)};
+    const [encoded, headers] = encode(body, 0);
+    expect(headers).toEqual({'content-encoding': 'br'});
+    const data = await buffer(encoded as NodeJS.ReadableStream);
+    expect(JSON.parse(zlib.brotliDecompressSync(data).toString())).toEqual(
+      body
+    );
+  });
+
+  test('fails the body when serialization fails', async () => {
+    const [encoded] = encode({entries: entries(20_000, 1n)}, 0);
+    await expect(buffer(encoded as NodeJS.ReadableStream)).rejects.toThrow(
+      /BigInt/
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import * as sut from '../src/diff.js';
+
+describe('diff problems', () => {
+  test('returns empty diff for identical problems', () => {
+    const problem = {
+      formulation: {name: 'f'},
+      inputs: {parameters: [{label: 'p', entries: [{key: ['a']}]}]},
+      options: {timeoutMillis: 1_000},
+    };
+    const diff = sut.diffProblems(problem, {
+      options: {timeoutMillis: 1_000},
+      inputs: {parameters: [{label: 'p', entries: [{key: ['a'], value: 1}]}]},
+      formulation: {name: 'f'},
+    });
+    expect(sut.isEmptyDiff(diff)).toBe(true);
+  });
+
+  test('reports changes', () => {
+    const diff = sut.diffProblems(
+      {
+        formulation: {name: 'f'},
+        inputs: {
+          dimensions: [{label: 'd', items: ['a', 'b']}],
+          parameters: [
+            {
+              label: 'p',
+              entries: [
+                {key: ['a'], value: 2},
+                {key: ['b'], value: 3},
+              ],
+            },
+          ],
+        },
+        options: {timeoutMillis: 1_000},
+      },
+      {
+        formulation: {name: 'f', specificationTagName: 'v2'},
+        inputs: {
+          dimensions: [{label: 'd', items: ['a', 'c']}],
+          parameters: [
+            {
+              label: 'p',
+              entries: [
+                {key: ['a'], value: 2},
+                {key: ['c'], value: 3},
+              ],
+              defaultValue: 0,
+            },
+          ],
+        },
+        options: {timeoutMillis: 2_000, relativeGapThreshold: 0.1},
+      }
+    );
+    expect(diff).toEqual({
+      formulation: {
+        before: {name: 'f'},
+        after: {name: 'f', specificationTagName: 'v2'},
+      },
+      dimensions: [{label: 'd', added: ['c'], removed: ['b']}],
+      parameters: [
+        {
+          label: 'p',
+          changes: [
+            {key: ['b'], before: 3, after: undefined},
+            {key: ['c'], before: undefined, after: 3},
+          ],
+          defaultValue: {before: undefined, after: 0},
+        },
+      ],
+      options: [
+        {path: 'timeoutMillis', before: 1_000, after: 2_000},
+        {path: 'relativeGapThreshold', before: undefined, after: 0.1},
+      ],
+    });
+  });
+});
+
+describe('diff outputs', () => {
+  test('reports changes beyond tolerance', () => {
+    const diff = sut.diffOutputs(
+      {
+        outcome: {status: 'OPTIMAL', objectiveValue: 10},
+        outputs: {
+          variables: [
+            {
+              label: 'x',
+              entries: [
+                {key: ['a'], value: 1},
+                {key: ['b'], value: 2},
+              ],
+            },
+          ],
+          constraints: [],
+        },
+      },
+      {
+        outcome: {status: 'OPTIMAL', objectiveValue: 12.5},
+        outputs: {
+          variables: [
+            {
+              label: 'x',
+              entries: [
+                {key: ['a'], value: 1.0000001},
+                {key: ['c'], value: 4},
+              ],
+            },
+          ],
+          constraints: [],
+        },
+      }
+    );
+    expect(diff).toEqual({
+      objectiveDelta: 2.5,
+      variables: [
+        {
+          label: 'x',
+          changes: [
+            {key: ['b'], before: 2, after: 0},
+            {key: ['c'], before: 0, after: 4},
+          ],
+        },
+      ],
+      constraints: [],
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import {noopTelemetry} from '@opvious/stl-telemetry';
+import http from 'http';
+import {AddressInfo} from 'net';
+
+import * as sut from '../src/client/fetch.js';
+
+interface ScriptedResponse {
+  readonly status: number;
+  readonly headers?: http.OutgoingHttpHeaders;
+}
+
+describe('api fetch', () => {
+  let server: http.Server;
+  let url: string;
+  let responses: ScriptedResponse[];
+  let requestCount: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requestCount++;
+      const scripted = responses.shift() ?? {status: 200};
+      req.resume().on('end', () => {
+        res.writeHead(scripted.status, scripted.headers).end('{}');
+      });
+    });
+    await new Promise<void>((ok) => void server.listen(0, ok));
+    url = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    responses = [];
+    requestCount = 0;
+  });
+
+  afterAll(async () => {
+    await new Promise((ok) => void server.close(ok));
+  });
+
+  function newFetch(policy?: sut.RetryPolicy): ReturnType<typeof sut.apiFetch> {
+    return sut.apiFetch({
+      logger: noopTelemetry().logger,
+      retryPolicy: {initialDelayMillis: 1, ...policy},
+    });
+  }
+
+  function post(
+    fetch: ReturnType<typeof sut.apiFetch>,
+    idempotent?: boolean
+  ): Promise<number> {
+    return sut.activeCall.run({idempotent}, async () => {
+      const res = await fetch(url, {method: 'POST', body: '{}'});
+      await res.text();
+      return res.status;
+    });
+  }
+
+  test('retries server errors from idempotent calls', async () => {
+    responses.push({status: 503}, {status: 502});
+    expect(await post(newFetch())).toEqual(200);
+    expect(requestCount).toEqual(3);
+  });
+
+  test('stops retrying after the maximum number of attempts', async () => {
+    responses.push({status: 503}, {status: 503}, {status: 503});
+    expect(await post(newFetch({maxAttempts: 2}))).toEqual(503);
+    expect(requestCount).toEqual(2);
+  });
+
+  test('does not retry server errors from non-idempotent calls', async () => {
+    responses.push({status: 503});
+    expect(await post(newFetch(), false)).toEqual(503);
+    expect(requestCount).toEqual(1);
+  });
+
+  test('retries non-idempotent calls when enabled', async () => {
+    responses.push({status: 503});
+    const fetch = newFetch({retryNonIdempotent: true});
+    expect(await post(fetch, false)).toEqual(200);
+    expect(requestCount).toEqual(2);
+  });
+
+  test('retries throttled non-idempotent calls', async () => {
+    responses.push({status: 429, headers: {'retry-after': '0'}}, {status: 429});
+    expect(await post(newFetch(), false)).toEqual(200);
+    expect(requestCount).toEqual(3);
+  });
+
+  test('does not wait beyond the maximum retry delay', async () => {
+    responses.push({status: 429, headers: {'retry-after': '60'}});
+    expect(await post(newFetch())).toEqual(429);
+    expect(requestCount).toEqual(1);
+  });
+});
@@ -53,6 +53,22 @@ describe.skipIf(!client.authenticated)('client', () => {
     ).toBeUndefined();
   });
 
+  test('iterates formulations', async () => {
+    const formulationName = 'n-queens' + NAME_SUFFIX;
+    const {contents} = await loader.load('sources/n-queens.md');
+    await client.registerSpecification({formulationName, sources: [contents]});
+    const names: string[] = [];
+    const iter = client.iterateFormulations(
+      {displayNameLike: formulationName},
+      {pageSize: 1, limit: 5}
+    );
+    for await (const node of iter) {
+      names.push(node.name);
+    }
+    expect(names).toContain(formulationName);
+    await client.deleteFormulation(formulationName);
+  });
+
   test('paginates attempts', async () => {
     await client.paginateAttempts({first: 10});
     // TODO: Check things...
@@ -0,0 +1,61 @@
+import * as sut from '../src/json.js';
+
+const value = {
+  name: 'a "quoted" \\ name',
+  skipped: undefined,
+  entries: Array.from({length: 10_000}, (_, ix) => ({
+    key: ['k' + ix, ix],
+    value: ix / 7,
+  })),
+  nested: [1, null, [true, false, {deep: 'é😀'}], []],
+};
+
+describe('json', () => {
+  test('serializes incrementally', () => {
+    const chunks = [...sut.jsonChunks(value)];
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toEqual(JSON.stringify(value));
+  });
+
+  test.each([1, 7, 4096])('parses in chunks of %i', (size) => {
+    const str = JSON.stringify(value);
+    const parser = new sut.JsonStreamParser();
+    for (let ix = 0; ix < str.length; ix += size) {
+      parser.write(str.slice(ix, ix + size));
+    }
+    expect(parser.end()).toEqual(JSON.parse(str));
+  });
+
+  test.each([
+    '[1, 2',
+    '{"a": 1]',
+    'tru',
+    '1 2',
+    '[1 2]',
+    '[1,,2]',
+    '[1,]',
+    '[,1]',
+    '["a":"b"]',
+    '{"a":1,"b"}',
+    '{"a" 1}',
+    '{"a":1,}',
+    '{1:2}',
+    ',1',
+    '[]]',
+  ])('rejects %s', (str) => {
+    const parser = new sut.JsonStreamParser();
+    expect(() => {
+      parser.write(str);
+      parser.end();
+    }).toThrow();
+  });
+
+  test.each(['[]', '{}', '[[], {}]', '{"a": [1, {"b": null}], "c": ""}'])(
+    'parses %s',
+    (str) => {
+      const parser = new sut.JsonStreamParser();
+      parser.write(str);
+      expect(parser.end()).toEqual(JSON.parse(str));
+    }
+  );
+});
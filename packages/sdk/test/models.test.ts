@@ -0,0 +1,166 @@
+import * as sut from '../src/models.js';
+
+const lp = `\\ Sample model
+Maximize
+ obj: 3 x + 2 y - z + 1
+Subject To
+ capacity: x + y
+   + z <= 10
+ demand: x - y >= -2
+ range: -1 <= 2 x - z <= 4
+ x + z = 3
+Bounds
+ y <= 5
+ -inf <= z <= 8
+ w free
+Generals
+ y
+Binaries
+ b
+End
+`;
+
+describe('linear models', () => {
+  test('parses LP', () => {
+    const model = sut.parseLinearModel(lp, 'lp');
+    expect(model.objective).toEqual({
+      name: 'obj',
+      isMaximization: true,
+      terms: {x: 3, y: 2, z: -1},
+      constant: 1,
+    });
+    expect(model.constraints).toEqual([
+      {name: 'capacity', terms: {x: 1, y: 1, z: 1}, upperBound: 10},
+      {name: 'demand', terms: {x: 1, y: -1}, lowerBound: -2},
+      {name: 'range', terms: {x: 2, z: -1}, lowerBound: -1, upperBound: 4},
+      {name: 'c4', terms: {x: 1, z: 1}, lowerBound: 3, upperBound: 3},
+    ]);
+    expect(model.variables).toEqual([
+      {name: 'x', lowerBound: 0},
+      {name: 'y', lowerBound: 0, upperBound: 5, integral: true},
+      {name: 'z', upperBound: 8},
+      {name: 'w'},
+      {name: 'b', lowerBound: 0, upperBound: 1, integral: true},
+    ]);
+  });
+
+  test.each<sut.ModelFormat>(['lp', 'mps', 'json'])('round-trips %s', (fmt) => {
+    const model = sut.parseLinearModel(lp, 'lp');
+    const text = sut.formatLinearModel(model, fmt);
+    expect(sut.parseLinearModel(text, fmt)).toEqual(model);
+  });
+
+  test('declares unbounded integer columns in MPS', () => {
+    const text = sut.formatLinearModel(
+      {
+        objective: {isMaximization: false, terms: {n: 1}},
+        variables: [{name: 'n', lowerBound: 0, integral: true}],
+        constraints: [],
+      },
+      'mps'
+    );
+    expect(text).toContain(' PL BND  n');
+  });
+
+  test.each([
+    '[]',
+    '{"variables": [], "constraints": []}',
+    '{"objective": {"terms": {}}, "variables": [], "constraints": []}',
+    '{"objective": {"isMaximization": true, "terms": {}}, "constraints": []}',
+    '{"objective": {"isMaximization": true, "terms": {"x": "1"}}, ' +
+      '"variables": [], "constraints": []}',
+    '{"objective": {"isMaximization": true, "terms": {}}, ' +
+      '"variables": [{"lowerBound": 0}], "constraints": []}',
+    '{"objective": {"isMaximization": true, "terms": {}}, ' +
+      '"variables": [], "constraints": [{"name": "c"}]}',
+    '{"objective"',
+  ])('rejects invalid JSON model %s', (text) => {
+    expect(() => sut.parseLinearModel(text, 'json')).toThrow(
+      /Invalid JSON model/
+    );
+  });
+
+  test('parses MPS', () => {
+    const model = sut.parseLinearModel(
+      [
+        'NAME          TESTLP',
+        'ROWS',
+        ' N  COST',
+        ' L  LIM1',
+        ' G  LIM2',
+        ' E  MYEQN',
+        'COLUMNS',
+        '    X1        COST         1.0   LIM1         1.0',
+        '    X1        LIM2         1.0',
+        '    MARKER    \'MARKER\'     \'INTORG\'',
+        '    X2        COST         2.0   LIM1         1.0',
+        '    X2        MYEQN       -1.0',
+        '    MARKER    \'MARKER\'     \'INTEND\'',
+        'RHS',
+        '    RHS       LIM1         4.0   LIM2         1.0',
+        '    RHS       MYEQN        7.0',
+        'RANGES',
+        '    RNG       LIM1         2.5',
+        'BOUNDS',
+        ' UP BND       X1           4.0',
+        ' MI BND       X2',
+        'ENDATA',
+      ].join('\n'),
+      'mps'
+    );
+    expect(model).toEqual({
+      objective: {name: 'COST', isMaximization: false, terms: {X1: 1, X2: 2}},
+      variables: [
+        {name: 'X1', lowerBound: 0, upperBound: 4},
+        {name: 'X2', integral: true},
+      ],
+      constraints: [
+        {name: 'LIM1', terms: {X1: 1, X2: 1}, lowerBound: 1.5, upperBound: 4},
+        {name: 'LIM2', terms: {X1: 1}, lowerBound: 1},
+        {name: 'MYEQN', terms: {X2: -1}, lowerBound: 7, upperBound: 7},
+      ],
+    });
+  });
+
+  test('rejects invalid LP', () => {
+    expect(() =>
+      sut.parseLinearModel('Minimize\n obj: x\nSubject To\n c: x <=\n', 'lp')
+    ).toThrow(/line 4/);
+  });
+
+  test('maps solutions to results', () => {
+    const model = sut.parseLinearModel(lp, 'lp');
+    const values = sut.parseSolutionValues(
+      [
+        'Model status        : Optimal',
+        '# Primal solution values',
+        'Columns 3',
+        'x 1',
+        'y 5',
+        'z 2',
+        '# Dual solution values',
+        'x 0.5',
+      ].join('\n'),
+      model
+    );
+    expect([...values]).toEqual([
+      ['x', 1],
+      ['y', 5],
+      ['z', 2],
+    ]);
+    const result = sut.linearModelResult(model, values, {
+      naming: {
+        variables: {
+          x: {label: 'production', key: ['a']},
+          y: {label: 'production', key: ['b']},
+        },
+      },
+      status: 'OPTIMAL',
+    });
+    expect(result.status).toEqual('OPTIMAL');
+    expect(result.objectiveValue).toEqual(12);
+    expect(result.value('production', 'b')).toEqual(5);
+    expect(result.value('z')).toEqual(2);
+    expect(result.value('capacity')).toEqual(8);
+  });
+});
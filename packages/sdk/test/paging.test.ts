@@ -0,0 +1,112 @@
+import {IterationOptions} from '../src/index.js';
+import {MockOpviousServer} from '../src/testing/index.js';
+
+const NOTIFICATION_COUNT = 5;
+
+/** Serves notifications via cursor-based pagination, cursors are indices. */
+function notificationPage(vars: {readonly [name: string]: unknown}): unknown {
+  const {first, after, last, before} = vars as {
+    readonly first?: number;
+    readonly after?: string;
+    readonly last?: number;
+    readonly before?: string;
+  };
+  let start: number;
+  let end: number;
+  if (last != null) {
+    end = before == null ? NOTIFICATION_COUNT : +before;
+    start = Math.max(0, end - last);
+  } else {
+    start = after == null ? 0 : +after + 1;
+    end = Math.min(NOTIFICATION_COUNT, start + (first ?? NOTIFICATION_COUNT));
+  }
+  const edges = Array.from({length: end - start}, (_, ix) => ({
+    node: {effectiveAt: new Date((start + ix) * 1000).toISOString()},
+  }));
+  return {
+    queuedSolve: {
+      notifications: {
+        totalCount: NOTIFICATION_COUNT,
+        pageInfo: {
+          hasPreviousPage: start > 0,
+          hasNextPage: end < NOTIFICATION_COUNT,
+          startCursor: '' + start,
+          endCursor: '' + (end - 1),
+        },
+        edges,
+      },
+    },
+  };
+}
+
+describe('paging', () => {
+  let server: MockOpviousServer;
+
+  beforeAll(async () => {
+    server = await MockOpviousServer.start();
+  });
+
+  beforeEach(() => {
+    server.scriptGraphql('PaginateQueuedSolveNotifications', notificationPage);
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  async function collectSeconds(opts: IterationOptions): Promise<number[]> {
+    const client = server.client();
+    const seconds: number[] = [];
+    for await (const notif of client.iterateSolveNotifications('abc', opts)) {
+      seconds.push(Date.parse(notif.effectiveAt) / 1000);
+    }
+    return seconds;
+  }
+
+  function pageVariables(): ReadonlyArray<unknown> {
+    return server
+      .requests('PaginateQueuedSolveNotifications')
+      .map((r) => r.variables);
+  }
+
+  test('iterates forward across pages', async () => {
+    expect(await collectSeconds({pageSize: 2})).toEqual([0, 1, 2, 3, 4]);
+    expect(pageVariables()).toEqual([
+      {uuid: 'abc', first: 2},
+      {uuid: 'abc', first: 2, after: '1'},
+      {uuid: 'abc', first: 2, after: '3'},
+    ]);
+  });
+
+  test('iterates backward across pages', async () => {
+    const seconds = await collectSeconds({pageSize: 2, direction: 'backward'});
+    expect(seconds).toEqual([4, 3, 2, 1, 0]);
+    expect(pageVariables()).toEqual([
+      {uuid: 'abc', last: 2},
+      {uuid: 'abc', last: 2, before: '3'},
+      {uuid: 'abc', last: 2, before: '1'},
+    ]);
+  });
+
+  test('stops at the limit', async () => {
+    expect(await collectSeconds({pageSize: 2, limit: 3})).toEqual([0, 1, 2]);
+    expect(pageVariables()).toEqual([
+      {uuid: 'abc', first: 2},
+      {uuid: 'abc', first: 1, after: '1'},
+    ]);
+  });
+
+  test('stops at the limit when iterating backward', async () => {
+    const seconds = await collectSeconds({
+      pageSize: 3,
+      limit: 4,
+      direction: 'backward',
+    });
+    expect(seconds).toEqual([4, 3, 2, 1]);
+    expect(pageVariables()).toHaveLength(2);
+  });
+});
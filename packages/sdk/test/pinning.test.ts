@@ -0,0 +1,76 @@
+import * as sut from '../src/pinning.js';
+
+const problem = {
+  formulation: {name: 'planning'},
+  inputs: {
+    parameters: [
+      {label: 'demand', entries: [{key: [1], value: 10}]},
+      {label: 'production_pin', entries: [{key: [1], value: 4}]},
+    ],
+  },
+  transformations: [{kind: 'pinVariables' as const, labels: ['production']}],
+};
+
+const outputs = {
+  variables: [
+    {
+      label: 'production',
+      entries: [
+        {key: [1], value: 5},
+        {key: [2], value: 6},
+        {key: [3], value: 7},
+      ],
+    },
+    {label: 'stock', entries: [{key: [1], value: 1}]},
+  ],
+  constraints: [],
+};
+
+describe('pinning', () => {
+  test('pins selected outputs', () => {
+    const pinned = sut.pinVariablesFromOutputs(problem, outputs, {
+      filter: (_label, key) => (key[0] as number) <= 2,
+    });
+    expect(pinned.transformations).toEqual([
+      {kind: 'pinVariables', labels: ['production', 'stock']},
+    ]);
+    expect(pinned.inputs.parameters).toEqual([
+      {label: 'demand', entries: [{key: [1], value: 10}]},
+      {
+        label: 'production_pin',
+        entries: [
+          {key: [1], value: 5},
+          {key: [2], value: 6},
+        ],
+      },
+      {label: 'stock_pin', entries: [{key: [1], value: 1}]},
+    ]);
+  });
+
+  test('pins missing outputs to zero', () => {
+    const pinned = sut.pinVariablesFromOutputs(problem, outputs, {
+      labels: ['stock'],
+    });
+    expect(pinned.inputs.parameters[2]).toEqual({
+      label: 'stock_pin',
+      entries: [{key: [1], value: 1}],
+      defaultValue: 0,
+    });
+    const unpinned = sut.pinVariablesFromOutputs(problem, outputs, {
+      labels: ['stock'],
+      pinMissingToZero: false,
+    });
+    expect(unpinned.inputs.parameters[2]?.defaultValue).toBeUndefined();
+  });
+
+  test('injects hints', () => {
+    const hinted = sut.hintVariablesFromOutputs(problem, outputs, {
+      parameters: {stock: 'initialStock'},
+    });
+    expect(hinted.transformations).toEqual(problem.transformations);
+    expect(hinted.inputs.parameters[2]).toEqual({
+      label: 'initialStock',
+      entries: [{key: [1], value: 1}],
+    });
+  });
+});
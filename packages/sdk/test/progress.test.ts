@@ -0,0 +1,144 @@
+import {waitForEvent} from '@opvious/stl-utils/events';
+
+import * as sut from '../src/progress.js';
+import {MockOpviousServer} from '../src/testing/index.js';
+
+describe('progress recorder', () => {
+  test('records inline progress', () => {
+    const recorder = new sut.ProgressRecorder({startedAt: 1000});
+    const activity = (relativeGap: number | 'Infinity', cutCount: number) => ({
+      kind: 'activity' as const,
+      relativeGap,
+      cutCount,
+      lpIterationCount: 10 * cutCount,
+    });
+    recorder.recordProgress(activity('Infinity', 0), 1100);
+    recorder.recordProgress(activity(0.5, 2), 1500);
+    recorder.recordProgress(activity(0.5, 3), 1600);
+    recorder.recordProgress(activity(0.1, 5), 2000);
+    expect(recorder.samples()).toHaveLength(4);
+    expect(recorder.summary()).toEqual({
+      sampleCount: 4,
+      durationMillis: 1000,
+      timeToFirstFeasibleMillis: 500,
+      finalRelativeGap: 0.1,
+      finalCutCount: 5,
+      finalLpIterationCount: 50,
+      gapCurve: [
+        {elapsedMillis: 500, relativeGap: 0.5},
+        {elapsedMillis: 1000, relativeGap: 0.1},
+      ],
+    });
+    expect(recorder.toCsv()).toEqual(
+      [
+        'elapsed_millis,relative_gap,cut_count,lp_iteration_count',
+        '100,,0,0',
+        '500,0.5,2,20',
+        '600,0.5,3,30',
+        '1000,0.1,5,50',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('measures elapsed times from the solve\'s start', () => {
+    vi.useFakeTimers({now: 1000});
+    try {
+      const recorder = new sut.ProgressRecorder({startedAt: Date.now()});
+      vi.advanceTimersByTime(300);
+      recorder.recordProgress({kind: 'activity', relativeGap: 0.4});
+      vi.advanceTimersByTime(200);
+      recorder.recordProgress({kind: 'activity', relativeGap: 0.1});
+      expect(recorder.summary()).toMatchObject({
+        durationMillis: 500,
+        timeToFirstFeasibleMillis: 300,
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('records queued notifications', () => {
+    const recorder = new sut.ProgressRecorder();
+    const notifications: ReadonlyArray<sut.ProgressNotification> = [
+      {
+        effectiveAt: '2024-01-01T00:00:00.000Z',
+        relativeGap: null,
+        cutCount: 1,
+        lpIterationCount: null,
+      },
+      {
+        effectiveAt: '2024-01-01T00:00:02.500Z',
+        relativeGap: 0.2,
+        cutCount: 4,
+        lpIterationCount: 12,
+      },
+    ];
+    for (const notif of notifications) {
+      recorder.recordNotification(notif);
+    }
+    expect(recorder.samples()).toEqual([
+      {elapsedMillis: 0, cutCount: 1},
+      {
+        elapsedMillis: 2500,
+        relativeGap: 0.2,
+        cutCount: 4,
+        lpIterationCount: 12,
+      },
+    ]);
+    expect(JSON.parse(recorder.toJson()).summary).toMatchObject({
+      timeToFirstFeasibleMillis: 2500,
+    });
+  });
+});
+
+describe('queued progress recorder', () => {
+  let server: MockOpviousServer;
+
+  beforeAll(async () => {
+    server = await MockOpviousServer.start();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('measures elapsed time from the solve\'s start', async () => {
+    server
+      .scriptGraphql('PollQueuedSolve', {
+        queuedSolve: {outcome: {status: 'OPTIMAL'}, failure: null},
+      })
+      .scriptGraphql('PaginateQueuedSolveNotifications', {
+        queuedSolve: {
+          notifications: {
+            totalCount: 1,
+            pageInfo: {
+              hasPreviousPage: false,
+              hasNextPage: false,
+              startCursor: '0',
+              endCursor: '0',
+            },
+            edges: [
+              {
+                node: {
+                  effectiveAt: '2024-01-01T00:00:03.000Z',
+                  relativeGap: 0.5,
+                },
+              },
+            ],
+          },
+        },
+      });
+    const tracker = server.client().trackSolve('abc', {
+      initialIntervalMillis: 1,
+    });
+    const recorder = new sut.ProgressRecorder().trackQueued(
+      tracker,
+      Date.parse('2024-01-01T00:00:00.000Z')
+    );
+    await waitForEvent(tracker, 'outcome');
+    expect(recorder.samples()).toEqual([
+      {elapsedMillis: 3000, relativeGap: 0.5},
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import * as sut from '../src/results.js';
+
+const result = sut.SolveResult.create(
+  {status: 'OPTIMAL', objectiveValue: 12},
+  {
+    variables: [
+      {
+        label: 'shipped',
+        entries: [
+          {key: ['nyc', 1], value: 3},
+          {key: ['sf', 2], value: 0},
+          {key: ['sf', 1], value: 5},
+        ],
+      },
+      {label: 'total', entries: [{key: [], value: 8}]},
+    ],
+    constraints: [{label: 'capacity', entries: [{key: ['nyc'], value: 1}]}],
+  }
+);
+
+describe('solve result', () => {
+  test('exposes outcome', () => {
+    expect(result.status).toEqual('OPTIMAL');
+    expect(result.objectiveValue).toEqual(12);
+    expect(result.labels('variable')).toEqual(['shipped', 'total']);
+    expect(result.labels()).toEqual(['shipped', 'total', 'capacity']);
+  });
+
+  test('looks up values', () => {
+    expect(result.value('shipped', 'nyc', 1)).toEqual(3);
+    expect(result.value('shipped', 'nyc', 2)).toEqual(0);
+    expect(result.value('total')).toEqual(8);
+    expect(() => result.value('missing')).toThrow(/missing/);
+  });
+
+  test('converts to sparse and dense', () => {
+    expect(result.nonZero('shipped')).toEqual([
+      ['nyc', 1],
+      ['sf', 1],
+    ]);
+    expect(result.toDense('shipped')).toEqual([
+      [3, 0],
+      [5, 0],
+    ]);
+    expect(result.toDense('shipped', [['sf'], [1, 2, 3]])).toEqual([[5, 0, 0]]);
+  });
+
+  test('flattens records', () => {
+    expect(result.toRecords('capacity')).toEqual([
+      {label: 'capacity', kind: 'constraint', key: ['nyc'], value: 1},
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import * as sut from '../src/scenarios.js';
+
+const base = {
+  formulation: {name: 'production'},
+  inputs: {
+    parameters: [
+      {
+        label: 'demand',
+        entries: [
+          {key: ['a'], value: 10},
+          {key: ['b'], value: 20},
+        ],
+      },
+      {label: 'capacity', entries: [{key: [], value: 50}]},
+    ],
+  },
+  options: {timeoutMillis: 1_000},
+};
+
+describe('apply scenario', () => {
+  test('overrides parameters and options', () => {
+    const problem = sut.applyScenario(base, {
+      name: 'peak',
+      parameters: {
+        demand: {set: [{key: ['c'], value: 5}], scale: 2},
+        capacity: {replace: [{key: [], value: 80}]},
+      },
+      options: {relativeGapThreshold: 0.01},
+    });
+    expect(problem).toEqual({
+      formulation: {name: 'production'},
+      inputs: {
+        parameters: [
+          {
+            label: 'demand',
+            entries: [
+              {key: ['a'], value: 20},
+              {key: ['b'], value: 40},
+              {key: ['c'], value: 10},
+            ],
+          },
+          {label: 'capacity', entries: [{key: [], value: 80}]},
+        ],
+      },
+      options: {timeoutMillis: 1_000, relativeGapThreshold: 0.01},
+    });
+    expect(base.inputs.parameters[0]!.entries[0]!.value).toEqual(10);
+  });
+
+  test('rejects unknown parameters', () => {
+    expect(() =>
+      sut.applyScenario(base, {
+        name: 'typo',
+        parameters: {demnad: {scale: 2}},
+      })
+    ).toThrow(/demnad/);
+  });
+
+  test('pins variables', () => {
+    const problem = sut.applyScenario(base, {
+      name: 'pinned',
+      pins: {production: [{key: ['a'], value: 3}]},
+    });
+    expect(problem.transformations).toEqual([
+      {kind: 'pinVariables', labels: ['production']},
+    ]);
+    expect(problem.inputs.parameters[2]).toEqual({
+      label: 'production_pin',
+      entries: [{key: ['a'], value: 3}],
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import {waitForEvent} from '@opvious/stl-utils/events';
+
+import {memorySolveCacheStorage} from '../src/index.js';
+import * as sut from '../src/testing/index.js';
+
+const problem = {
+  formulation: {name: 'n-queens'},
+  inputs: {parameters: [{label: 'size', entries: [{key: [], value: 5}]}]},
+};
+
+describe('mock server', () => {
+  let server: sut.MockOpviousServer;
+
+  beforeAll(async () => {
+    server = await sut.MockOpviousServer.start();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('records queued solves', async () => {
+    server.script('queueSolve', {data: {uuid: 'abc'}});
+    const client = server.client();
+    const {uuid} = await client.queueSolve({problem});
+    expect(uuid).toEqual('abc');
+    expect(server.requests('queueSolve')).toMatchObject([
+      {
+        method: 'POST',
+        headers: {authorization: 'Bearer mock-token'},
+        body: {problem},
+      },
+    ]);
+  });
+
+  test('uses default responders for unscripted operations', async () => {
+    const client = server.client();
+    const {uuid} = await client.queueSolve({problem});
+    expect(uuid).toMatch(/^[0-9a-f-]{36}$/);
+    expect(await client.cancelSolve(uuid)).toBe(true);
+    server.script('queueSolve', {data: {uuid: 'abc'}});
+    expect(await client.queueSolve({problem})).toEqual({uuid: 'abc'});
+  });
+
+  test('streams inline solves', async () => {
+    server.script('solve', {
+      sequence: [
+        {kind: 'solving', progress: {kind: 'activity', relativeGap: 0.5}},
+        {kind: 'solved', outcome: {status: 'OPTIMAL', objectiveValue: 3}},
+      ],
+    });
+    const client = server.client();
+    const tracker = client.runSolve({problem});
+    const [outcome] = await waitForEvent(tracker, 'solved');
+    expect(outcome).toEqual({status: 'OPTIMAL', objectiveValue: 3});
+  });
+
+  test('inspects problems with a zero time limit', async () => {
+    const summary = {
+      dimensions: [{label: 'cells', itemCount: 25}],
+      variables: [{label: 'queens', columnCount: 25}],
+    };
+    server.script('solve', {
+      sequence: [
+        {kind: 'reified', summary},
+        {kind: 'solved', outcome: {status: 'UNKNOWN'}},
+      ],
+    });
+    const client = server.client();
+    expect(await client.inspectProblem(problem)).toEqual(summary);
+    expect(server.requests('solve')).toMatchObject([
+      {body: {problem: {options: {timeoutMillis: 0}}}},
+    ]);
+  });
+
+  test('surfaces dropped streams', async () => {
+    server.script('solve', {
+      sequence: [
+        {kind: 'solving', progress: {kind: 'activity', relativeGap: 0.5}},
+        {kind: 'solved', outcome: {status: 'OPTIMAL'}},
+      ],
+      dropAfter: 1,
+    });
+    const client = server.client();
+    const tracker = client.runSolve({problem});
+    await expect(waitForEvent(tracker, 'solved')).rejects.toThrow();
+  });
+
+  test('solves problems via promise', async () => {
+    server.script('solve', {
+      sequence: [
+        {kind: 'solving', progress: {kind: 'activity', relativeGap: 0.5}},
+        {kind: 'solved', outcome: {status: 'INFEASIBLE'}},
+      ],
+    });
+    const client = server.client();
+    const progress: unknown[] = [];
+    await expect(
+      client.solve(problem, {
+        onProgress: (p) => void progress.push(p),
+        rejectUnsolvable: true,
+      })
+    ).rejects.toThrow(/infeasible/);
+    expect(progress).toHaveLength(1);
+  });
+
+  test('caches identical solves', async () => {
+    server.script('solve', {
+      sequence: [{kind: 'solved', outcome: {status: 'OPTIMAL'}}],
+    });
+    const client = server.client({
+      solveCache: {storage: memorySolveCacheStorage()},
+    });
+    const solved1 = await client.solve(problem);
+    expect(solved1.cached).toBeUndefined();
+    const solved2 = await client.solve({
+      inputs: problem.inputs,
+      formulation: problem.formulation,
+    });
+    expect(solved2).toMatchObject({outcome: {status: 'OPTIMAL'}, cached: true});
+    expect(server.requests('solve')).toHaveLength(1);
+  });
+
+  test('surfaces solve errors', async () => {
+    server.script('solve', {
+      headers: {'opvious-trace': 't1'},
+      sequence: [{kind: 'error', error: {message: 'Bad input'}}],
+    });
+    const client = server.client();
+    await expect(client.solve(problem)).rejects.toThrow(
+      /trace 't1'.*Bad input/
+    );
+  });
+
+  test('scripts graphql operations', async () => {
+    server.scriptGraphql('FetchMember', {me: {email: 'a@b.c'}});
+    const client = server.client();
+    const member = await client.fetchMember();
+    expect(member).toEqual({email: 'a@b.c'});
+  });
+
+  test('retries transient failures', async () => {
+    server
+      .injectFault('parseSources', {kind: 'status', status: 503}, {times: 1})
+      .injectFault('parseSources', {kind: 'disconnect'}, {times: 1})
+      .script('parseSources', {data: {slices: [], errors: []}});
+    const client = server.client({retryPolicy: {initialDelayMillis: 1}});
+    const parsed = await client.parseSources({sources: []});
+    expect(parsed).toEqual({slices: [], errors: []});
+    expect(server.requests('parseSources')).toHaveLength(3);
+  });
+
+  test('does not retry non-idempotent operations', async () => {
+    server
+      .injectFault('queueSolve', {kind: 'status', status: 503}, {times: 1})
+      .script('queueSolve', {data: {uuid: 'abc'}});
+    const client = server.client({retryPolicy: {initialDelayMillis: 1}});
+    await expect(client.queueSolve({problem})).rejects.toThrow(/503/);
+    expect(server.requests('queueSolve')).toHaveLength(1);
+  });
+
+  test('applies middleware to all requests', async () => {
+    server
+      .script('parseSources', {data: {slices: [], errors: []}})
+      .scriptGraphql('FetchMember', {me: {email: 'a@b.c'}});
+    const statuses: number[] = [];
+    const client = server.client({
+      middleware: [
+        async (req, next) => {
+          req.headers.set('tenant', 't1');
+          const res = await next(req);
+          statuses.push(res.status);
+          return res;
+        },
+      ],
+    });
+    await client.parseSources({sources: []});
+    await client.fetchMember();
+    expect(statuses).toEqual([200, 200]);
+    for (const req of server.requests()) {
+      expect(req.headers).toMatchObject({tenant: 't1'});
+    }
+  });
+
+  test('times out stalled calls', async () => {
+    server.injectFault(sut.ANY_OPERATION, {kind: 'stall'});
+    const client = server.client();
+    await expect(
+      client.parseSources({sources: []}, {timeoutMillis: 50})
+    ).rejects.toThrow(/timed out/);
+  });
+
+  test('aborts stalled calls', async () => {
+    server.injectFault(sut.ANY_OPERATION, {kind: 'stall'});
+    const client = server.client();
+    const ac = new AbortController();
+    const fetched = client.fetchMember({signal: ac.signal});
+    ac.abort();
+    await expect(fetched).rejects.toThrow(/aborted/);
+  });
+});
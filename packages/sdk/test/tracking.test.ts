@@ -0,0 +1,158 @@
+import {setTimeout} from 'timers/promises';
+
+import {QueuedSolveTracker} from '../src/index.js';
+import {MockOpviousServer} from '../src/testing/index.js';
+
+const pending = {queuedSolve: {outcome: null, failure: null}};
+
+const solved = {queuedSolve: {outcome: {status: 'OPTIMAL'}, failure: null}};
+
+/** Serves `count` notifications, cursors are indices. */
+function notificationPages(
+  count: number
+): (vars: {readonly [name: string]: unknown}) => unknown {
+  return (vars) => {
+    const start = vars.after == null ? 0 : +(vars.after as string) + 1;
+    const end = Math.min(count, start + (vars.first as number));
+    return {
+      queuedSolve: {
+        notifications: {
+          totalCount: count,
+          pageInfo: {
+            hasPreviousPage: start > 0,
+            hasNextPage: end < count,
+            startCursor: start < end ? '' + start : null,
+            endCursor: start < end ? '' + (end - 1) : null,
+          },
+          edges: Array.from({length: Math.max(0, end - start)}, (_, ix) => ({
+            node: {
+              effectiveAt: new Date((start + ix) * 1000).toISOString(),
+              relativeGap: 1 / (start + ix + 1),
+            },
+          })),
+        },
+      },
+    };
+  };
+}
+
+interface TrackedEvents {
+  readonly notifications: ReadonlyArray<unknown>;
+  readonly checkpoints: ReadonlyArray<string>;
+  readonly end: Promise<string>;
+}
+
+function trackedEvents(tracker: QueuedSolveTracker): TrackedEvents {
+  const notifications: unknown[] = [];
+  const checkpoints: string[] = [];
+  const end = new Promise<string>((ok, fail) => {
+    tracker
+      .on('notification', (notif) => void notifications.push(notif))
+      .on('checkpoint', (cursor) => void checkpoints.push(cursor))
+      .on('error', fail)
+      .on('failure', () => void ok('failure'))
+      .on('outcome', (outcome) => void ok(outcome.status));
+  });
+  return {notifications, checkpoints, end};
+}
+
+describe('queued solve tracking', () => {
+  let server: MockOpviousServer;
+
+  beforeAll(async () => {
+    server = await MockOpviousServer.start();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('emits notifications before the outcome', async () => {
+    server
+      .scriptGraphql('PollQueuedSolve', solved)
+      .scriptGraphql('PaginateQueuedSolveNotifications', notificationPages(3));
+    const client = server.client();
+    const events = trackedEvents(
+      client.trackSolve('abc', {initialIntervalMillis: 1})
+    );
+    expect(await events.end).toEqual('OPTIMAL');
+    expect(events.notifications).toHaveLength(3);
+    expect(events.checkpoints).toEqual(['2']);
+  });
+
+  test('resumes from a cursor', async () => {
+    server
+      .scriptGraphql('PollQueuedSolve', solved)
+      .scriptGraphql('PaginateQueuedSolveNotifications', notificationPages(5));
+    const client = server.client();
+    const events = trackedEvents(
+      client.trackSolve('abc', {initialIntervalMillis: 1, cursor: '2'})
+    );
+    expect(await events.end).toEqual('OPTIMAL');
+    expect(events.notifications).toMatchObject([
+      {effectiveAt: new Date(3000).toISOString()},
+      {effectiveAt: new Date(4000).toISOString()},
+    ]);
+    expect(events.checkpoints).toEqual(['4']);
+    const [req] = server.requests('PaginateQueuedSolveNotifications');
+    expect(req?.variables).toMatchObject({uuid: 'abc', after: '2'});
+  });
+
+  test('stops polling', async () => {
+    server
+      .scriptGraphql('PollQueuedSolve', pending)
+      .scriptGraphql('PaginateQueuedSolveNotifications', notificationPages(0));
+    const client = server.client();
+    const tracker = client.trackSolve('abc', {
+      initialIntervalMillis: 1,
+      maxIntervalMillis: 5,
+    });
+    const events = trackedEvents(tracker);
+    await setTimeout(50);
+    tracker.stop();
+    const count = server.requests('PollQueuedSolve').length;
+    expect(count).toBeGreaterThan(0);
+    await setTimeout(50);
+    expect(server.requests('PollQueuedSolve').length).toBeLessThanOrEqual(
+      count + 1 // A poll may have been in flight.
+    );
+    const settled = await Promise.race([events.end, setTimeout(10, 'pending')]);
+    expect(settled).toEqual('pending');
+  });
+
+  test('times out', async () => {
+    server
+      .scriptGraphql('PollQueuedSolve', pending)
+      .scriptGraphql('PaginateQueuedSolveNotifications', notificationPages(0));
+    const client = server.client();
+    const events = trackedEvents(
+      client.trackSolve('abc', {
+        initialIntervalMillis: 1,
+        maxIntervalMillis: 5,
+        timeoutMillis: 50,
+      })
+    );
+    await expect(events.end).rejects.toThrow(/timed out/);
+    const count = server.requests('PollQueuedSolve').length;
+    await setTimeout(20);
+    expect(server.requests('PollQueuedSolve').length).toBeLessThanOrEqual(
+      count + 1
+    );
+  });
+
+  test('rejects failed solves when waiting for their outcome', async () => {
+    server
+      .scriptGraphql('PollQueuedSolve', {
+        queuedSolve: {outcome: null, failure: {status: 'INTERNAL'}},
+      })
+      .scriptGraphql('PaginateQueuedSolveNotifications', notificationPages(0));
+    const client = server.client();
+    await expect(
+      client.waitForOutcome('abc', {initialIntervalMillis: 1})
+    ).rejects.toThrow(/abc/);
+  });
+});
@@ -0,0 +1,126 @@
+import * as api from '@opvious/api';
+
+import * as sut from '../src/validation.js';
+
+const outline: api.Schema<'Outline'> = {
+  dimensions: [{label: 'steps', isNumeric: true}],
+  parameters: [
+    {
+      label: 'size',
+      bindings: [{dimensionLabel: 'steps'}],
+      image: {isIntegral: true, lowerBound: 1, upperBound: 10},
+    },
+    {
+      label: 'total',
+      bindings: [],
+      image: {isIntegral: false, lowerBound: 0, upperBound: 'Infinity'},
+      derivation: {},
+    } as api.Schema<'ParameterOutline'>,
+  ],
+  variables: [],
+  constraints: [],
+  objectives: [],
+};
+
+function problem(
+  inputs: api.Schema<'Problem'>['inputs']
+): api.Schema<'Problem'> {
+  return {formulation: {name: 'steps'}, inputs};
+}
+
+describe('validate problem', () => {
+  test('accepts valid problem', () => {
+    const issues = sut.validateProblem(
+      problem({
+        dimensions: [{label: 'steps', items: [1, 2]}],
+        parameters: [{label: 'size', entries: [{key: [1], value: 3}]}],
+      }),
+      outline
+    );
+    expect(issues).toEqual([]);
+  });
+
+  test('reports image violations', () => {
+    const issues = sut.validateProblem(
+      problem({
+        parameters: [
+          {
+            label: 'size',
+            entries: [
+              {key: [1], value: 2.5},
+              {key: [2], value: 0},
+              {key: [3], value: 11},
+            ],
+            defaultValue: 20,
+          },
+        ],
+      }),
+      outline
+    );
+    expect(issues.map((i) => i.path)).toEqual([
+      '$.inputs.parameters[0].defaultValue',
+      '$.inputs.parameters[0].entries[0].value',
+      '$.inputs.parameters[0].entries[1].value',
+      '$.inputs.parameters[0].entries[2].value',
+    ]);
+  });
+
+  test('reports invalid items and derived parameters', () => {
+    const issues = sut.validateProblem(
+      problem({
+        dimensions: [{label: 'steps', items: [1, 'two', 1]}],
+        parameters: [
+          {label: 'size', entries: [{key: ['3']}]},
+          {label: 'total', entries: [{key: [], value: 1}]},
+        ],
+      }),
+      outline
+    );
+    expect(issues).toEqual([
+      {
+        path: '$.inputs.dimensions[0].items[1]',
+        message: 'Non-numeric item two in numeric dimension steps',
+      },
+      {path: '$.inputs.dimensions[0].items[2]', message: 'Duplicate item 1'},
+      {
+        path: '$.inputs.parameters[0].entries[0].key[0]',
+        message: 'Non-numeric item 3 in numeric dimension steps',
+      },
+      {
+        path: '$.inputs.parameters[0].entries[0].key[0]',
+        message: 'Item 3 does not belong to dimension steps',
+      },
+      {
+        path: '$.inputs.parameters[1]',
+        message: 'Derived parameter total is not settable',
+      },
+    ]);
+  });
+
+  test('warns about summaries', () => {
+    const summary = {
+      dimensions: [
+        {label: 'products', itemCount: 3},
+        {label: 'steps', itemCount: 0},
+      ],
+      parameters: [
+        {label: 'demand', entryProfile: {count: 0}},
+        {label: 'cost', entryProfile: {count: 3, min: 1, max: 4}},
+      ],
+      variables: [
+        {label: 'production', columnCount: 3},
+        {label: 'flow', columnCount: 20},
+      ],
+      constraints: [{label: 'capacity', rowCount: 0}],
+    } as unknown as api.Schema<'ProblemSummary'>;
+    expect(sut.summaryWarnings(summary, {maxInstances: 10})).toEqual([
+      {path: '$.dimensions[1]', message: 'Dimension steps is empty'},
+      {path: '$.parameters[0]', message: 'Parameter demand has no entries'},
+      {
+        path: '$.variables[1]',
+        message: 'Variable flow has 20 columns (more than 10)',
+      },
+      {path: '$.constraints[0]', message: 'Constraint capacity has no rows'},
+    ]);
+  });
+});